@@ -6,6 +6,7 @@ export interface BotResponse {
 }
 
 export interface BotRequest {
+    conversationId: string;
     text: string;
 }
 
@@ -25,6 +26,7 @@ export class ConsoleBot {
     run() {
         this.rl.question('> ', (text) => {
             this.bot({
+                conversationId: 'console',
                 text,
             }, {
                 exit: () => { this.exit = true; },
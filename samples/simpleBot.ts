@@ -1,18 +1,22 @@
-import { first, matchIf, match, re, ActionReferences } from '../src/prague';
+import { first, matchIf, match, re, named, ActionReferences, ConversationStates } from '../src/prague';
 import { Bot, BotRequest, BotResponse } from './consoleBot';
 
-// `botState` holds state across conversational "turns" - a more sophisticated app
-// might use something like Redux to manage a complex state machine.
+// `BotState` holds state across conversational "turns". `states` keeps a separate one for each conversation,
+// starting with the initial state below. Each turn gets an immutable snapshot of it.
+//
+// By default `states` keeps them in memory. To keep them across restarts, pass it a store, e.g.
+// `new FileStore<BotState>('./state')`.
 
 interface BotState {
     open: boolean;
 }
 
-let botState: BotState = {
+const states = new ConversationStates<BotState>({
     open: true,
-}
+});
 
-// `actions` contains all the actions the bot can take, including updating botState.
+// `actions` contains all the actions the bot can take. Instead of changing the state, an action can
+// return a function which creates the new state from the old one. `states` applies it after the turn.
 
 const actions = new ActionReferences((res: BotResponse) => ({
     oof() {
@@ -27,11 +31,11 @@ const actions = new ActionReferences((res: BotResponse) => ({
     },
     open() {
         res.send(`Open for business!`);
-        botState.open = true;
+        return (state: BotState) => ({ ... state, open: true });
     },
     close() {
         res.send(`Closing up.`);
-        botState.open = false;
+        return (state: BotState) => ({ ... state, open: false });
     },
     default() {
         res.send(`I didn't understand that.`);
@@ -81,7 +85,7 @@ const isCloseUp = re(/Gone fishing/i);
 
 // Sometimes rules operate on user input, sometimes on application state, like `isOpen`
 
-const isOpen = () => botState.open;
+const isOpen = (state: BotState) => state.open;
 
 // `whenopen` uses `first` with the `match` and `matchIf` helpers to create a more sophisticated rule.
 //
@@ -94,21 +98,23 @@ const isOpen = () => botState.open;
 //
 // `matchIf` is very similar, but it interprets the result of the first function as a predicate. If it's
 // truthy it returns the result of the second function, otherwise the third (or null if that's missing).
+//
+// `named` gives a rule a name which shows up when tracing or listing the rules with `ruleTree`.
 
-const whenOpen = first(
+const whenOpen = named('whenOpen', first(
     match(getNameFromGreeting, actions.reference.greet),
     matchIf(isFarewell, actions.reference.bye),
     matchIf(isCloseUp, actions.reference.close),
-);
+));
 
 // `whenClosed` works similarly to `whenOpen`. Notice that the second argument to `first` has no conditions.
 // actions.reference.oof is acting as a default 'catch-all' case, giving an "out of office" message to almost
 // all utterances
 
-const whenClosed = first(
+const whenClosed = named('whenClosed', first(
     match(isOpenUp, actions.reference.open),
     actions.reference.oof,
-);
+));
 
 // `botLogic` is the top-level logic that decides what actions to take. It has a top-level
 // "catch-all" rule, guaranteeing that it will always return an `ActionReference`. In fact
@@ -118,16 +124,19 @@ const whenClosed = first(
 //
 // Because `botLogic` only returns a description of the action to take, it is perfect for testing.
 // "../test/simpleBot.ts" contains tests for `botLogic`.
+//
+// `botLogic` calls `whenOpen` and `whenClosed` from inside a closure, so we tell `named` about them.
 
-export const botLogic = (req: BotRequest) => first(
-    matchIf(isOpen,
+export const botLogic = named('botLogic', (req: BotRequest, state: BotState) => first(
+    matchIf(() => isOpen(state),
         () => whenOpen(req.text),
         () => whenClosed(req.text),
     ),
     actions.reference.default,
-)();
+)(), [isOpen, whenOpen, whenClosed, actions.reference.default]);
 
-// `bot` uses the `actions.run` helper to binds the `ActionReference` returned by `botLogic` to
-// the actual function to run, and then runs that function.
+// `bot` runs a turn of the conversation. It uses the `actions.run` helper to bind the `ActionReference`
+// returned by `botLogic` to the actual function to run, and then runs that function. `states` then applies
+// any state update it returns.
 
-export const bot: Bot = (req, res) => actions.run(botLogic, res)(req);
+export const bot: Bot = (req, res) => states.turn(req.conversationId, state => actions.run(botLogic, res)(req, state));
@@ -1,4 +1,13 @@
-import { tube, Scored, tap, toPromise } from './prague';
+import { Returns, tube, Scored, toPromise, getContext, invoke, throwIfAborted, registerRule, recordCoverage, Err, isRecoverable, PragueError, UnknownActionError, ForbiddenActionError, InvalidActionReferenceError } from './prague';
+
+/**
+ * The wire format of an ActionReference, as produced by `JSON.stringify`
+ */
+
+export interface SerializedActionReference {
+    name: string;
+    args: any[];
+}
 
 /**
  * A reference to a function to potentially execute at a later time
@@ -20,10 +29,122 @@ export class ActionReference {
     ) {
         this.args = args;
     }
+
+    /**
+     * Converts the ActionReference to its wire format. Its args must be JSON-serializable.
+     * @returns A SerializedActionReference
+     */
+
+    toJSON (): SerializedActionReference {
+        return {
+            name: this.name,
+            args: this.args,
+        };
+    }
 }
 
+export interface ActionBatchOptions {
+    /**
+     * What to do when an action throws: 'stop' (the default) rejects with its error, without starting any more actions. 'collect' replaces its result with an Err and carries on.
+     */
+    onError?: 'stop' | 'collect';
+}
+
+/**
+ * Several ActionReferences (or other ActionBatches) to run in one turn, either one after another or all at once
+ **/
+
+export class ActionBatch {
+
+    /**
+     * Create an ActionBatch
+     * @param mode 'sequence' to run the actions in order, each once the previous one has finished, or 'parallel' to run them all at once
+     * @param actions The actions
+     * @param options (optional) onError
+     */
+
+    constructor (
+        public mode: 'sequence' | 'parallel',
+        public actions: (ActionReference | ActionBatch)[],
+        public options: ActionBatchOptions = {},
+    ) {
+        if (options.onError !== undefined && options.onError !== 'stop' && options.onError !== 'collect')
+            throw new PragueError("onError must be 'stop' or 'collect'");
+    }
+}
+
+/**
+ * Creates a version of `sequence` which handles errors as configured
+ * @param options onError
+ * @returns A function which creates an ActionBatch like `sequence`
+ */
+
+export const sequenceWith = (
+    options: ActionBatchOptions,
+) => (
+    ...actions: (ActionReference | ActionBatch)[]
+) => new ActionBatch('sequence', actions, options);
+
+/**
+ * Creates a version of `parallel` which handles errors as configured
+ * @param options onError
+ * @returns A function which creates an ActionBatch like `parallel`
+ */
+
+export const parallelWith = (
+    options: ActionBatchOptions,
+) => (
+    ...actions: (ActionReference | ActionBatch)[]
+) => new ActionBatch('parallel', actions, options);
+
+/**
+ * Creates an ActionBatch which runs actions in order, each once the previous one has finished, stopping at the first error
+ * @param actions The actions, e.g. from `reference` stubs
+ * @returns A new ActionBatch, whose result is the array of the actions' results
+ */
+
+export const sequence = sequenceWith({});
+
+/**
+ * Creates an ActionBatch which runs actions all at once, rejecting with the first error
+ * @param actions The actions, e.g. from `reference` stubs
+ * @returns A new ActionBatch, whose result is the array of the actions' results
+ */
+
+export const parallel = parallelWith({});
+
 export type Actions = Record<string, Function>;
 
+/**
+ * The schema of an argument of an action: the name of a JSON type, or a function which tests the argument
+ */
+
+export type ArgSchema =
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'object'
+    | 'array'
+    | 'any'
+    | ((arg: any) => boolean);
+
+/**
+ * The schemas of the args of each action, against which deserialized ActionReferences are validated
+ */
+
+export type ActionSchemas<ACTIONS extends Actions> = {
+    [P in keyof ACTIONS]?: ArgSchema[];
+}
+
+const isValid = (
+    schema: ArgSchema,
+    arg: any,
+) => typeof schema === 'function' ? schema(arg) :
+    schema === 'any' ? true :
+    schema === 'array' ? Array.isArray(arg) :
+    schema === 'object' ? arg !== null && typeof arg === 'object' && !Array.isArray(arg) :
+    typeof arg === schema;
+
 type Args <F extends Actions> = {
     [P in keyof F]:
         F[P] extends (...args: infer ARGS) => any ? ARGS :
@@ -44,6 +165,145 @@ type ScoredStubs<ACTIONS extends Actions> = {
     ) => Scored<ActionReference>
 }
 
+/**
+ * For some or all actions, a function which creates the ActionReference which undoes it, given the same args
+ */
+
+export type Compensations<ACTIONS extends Actions> = {
+    [P in keyof Args<ACTIONS>]?: (
+        ...args: Args<ACTIONS>[P]
+    ) => ActionReference | null
+}
+
+/**
+ * The declaration of an action: the schemas of its args, and anything else you want to know about it without running it
+ */
+
+export interface ActionDeclaration <
+    ARGS extends any[] = any[],
+> {
+    /**
+     * (optional) the schemas of its args, used by `deserialize`
+     */
+    args?: ArgSchema[];
+
+    description?: string;
+    metadata?: Record<string, any>;
+
+    /**
+     * Never set: carries the TypeScript types of the args, as given to `declareAction`
+     */
+    argTypes?: ARGS;
+}
+
+/**
+ * Declares an action
+ * @param ARGS The types of its args
+ * @param declaration (optional) the schemas of its args, its description, and/or its metadata
+ * @returns The ActionDeclaration
+ */
+
+export const declareAction = <
+    ARGS extends any[] = [],
+> (
+    declaration: ActionDeclaration<ARGS> = {},
+) => declaration;
+
+type Declarations = Record<string, ActionDeclaration<any>>;
+
+/**
+ * The functions which implement declared actions
+ */
+
+export type Implementations<DECLARATIONS extends Declarations> = {
+    [P in keyof DECLARATIONS]: DECLARATIONS[P] extends ActionDeclaration<infer ARGS>
+        ? (...args: ARGS) => any
+        : never
+}
+
+/**
+ * A set of actions declared up front, to be implemented for each context with `implement`
+ */
+
+export class ActionDeclarations <
+    DECLARATIONS extends Declarations,
+> {
+
+    /**
+     * Create an ActionDeclarations
+     * @param declarations The declaration of each action, e.g. from `declareAction`
+     * @param namespace (optional) a prefix for the names of the actions, e.g. 'billing' names `refund` 'billing.refund'
+     */
+
+    constructor (
+        public declarations: DECLARATIONS,
+        public namespace?: string,
+    ) {
+    }
+
+    /**
+     * Implements the actions
+     * @param getActions a function which takes zero or more arguments and returns a dictionary of functions implementing some or all of the actions. It's only called to run an action, so it may leave out those which aren't available in some contexts.
+     * @returns A new ActionReferences
+     */
+
+    implement <
+        CONTEXTARGS extends any[],
+    > (
+        getActions: (...contextargs: CONTEXTARGS) => Partial<Implementations<DECLARATIONS>>,
+    ): ActionReferences<CONTEXTARGS, Implementations<DECLARATIONS>> {
+        return new ActionReferences(getActions as (...contextargs: CONTEXTARGS) => Implementations<DECLARATIONS>, {}, this);
+    }
+}
+
+/**
+ * Declares a set of actions
+ * @param declarations The declaration of each action, e.g. from `declareAction`
+ * @param namespace (optional) a prefix for the names of the actions, e.g. 'billing' names `refund` 'billing.refund'
+ * @returns A new ActionDeclarations
+ */
+
+export const declareActions = <
+    DECLARATIONS extends Declarations,
+> (
+    declarations: DECLARATIONS,
+    namespace?: string,
+) => new ActionDeclarations(declarations, namespace);
+
+/**
+ * For some or all actions, a predicate which decides whether it may run, given the context arguments and its args
+ */
+
+export type Guards<CONTEXTARGS extends any[], ACTIONS extends Actions> = {
+    [P in keyof Args<ACTIONS>]?: (
+        contextArgs: CONTEXTARGS,
+        ...args: Args<ACTIONS>[P]
+    ) => Returns<boolean>
+}
+
+export interface GuardOptions {
+    /**
+     * (optional) creates the ActionReference to run, through the middleware, instead of one whose guard refuses it. Defaults to rejecting with a ForbiddenActionError.
+     */
+    fallback?: (reference: ActionReference) => ActionReference;
+}
+
+/**
+ * Middleware which runs around every action run by `ActionReferences.doAction`, e.g. for logging, authorization, or metrics
+ * @param reference The ActionReference being run
+ * @param next Runs the rest of the chain, and finally the action, returning a Promise of its result. Pass it an ActionReference to run that instead, or don't call it to short-circuit the action.
+ * @param contextArgs The arguments passed to `doAction`
+ * @returns The result of the action, or whatever should replace it
+ */
+
+export type ActionMiddleware <
+    CONTEXTARGS extends any[],
+> = (
+    reference: ActionReference,
+    next: (reference?: ActionReference) => Promise<any>,
+    ...contextArgs: CONTEXTARGS
+) => Returns<any>;
+
 /**
  * A collection of functions to be referenced for potential later execution
  */
@@ -55,24 +315,300 @@ export class ActionReferences <
     reference = {} as Stubs<ACTIONS>;
     scoredReference = {} as ScoredStubs<ACTIONS>;
 
+    private names: string[];
+    private prefix: string;
+    private declarations: Declarations;
+    private middleware: ActionMiddleware<CONTEXTARGS>[] = [];
+    private compensations: Compensations<ACTIONS> = {};
+    private guards: Guards<CONTEXTARGS, ACTIONS> = {};
+    private guardFallback?: (reference: ActionReference) => ActionReference;
+
     /**
      * Create an ActionReferences
-     * @param getActions a function which takes zero or more arguments and returns a dictionary of functions 
+     * @param getActions a function which takes zero or more arguments and returns a dictionary of functions. Unless the actions are declared, it's called once with undefined arguments to discover their names.
+     * @param schemas (optional) the schemas of the args of some or all actions, used by `deserialize`
+     * @param declarations (optional) the declarations of the actions, e.g. by `ActionDeclarations.implement`
      */
 
     constructor (
         private getActions: (...contextargs: CONTEXTARGS) => ACTIONS,
+        private schemas: ActionSchemas<ACTIONS> = {},
+        declarations?: ActionDeclarations<any>,
     ) {
-        for (const name of Object.keys(getActions(...new Array(getActions.length) as CONTEXTARGS))) {
-            this.reference[name] = (...args) => new ActionReference(name, ...args);
-            this.scoredReference[name] = (score, ...args) => Scored.from(new ActionReference(name, ...args), score);
+        if (declarations) {
+            this.names = Object.keys(declarations.declarations);
+            this.prefix = declarations.namespace ? declarations.namespace + '.' : '';
+            this.declarations = declarations.declarations;
+
+            for (const name of this.names)
+                if (declarations.declarations[name].args && !this.schemas[name])
+                    this.schemas[name] = declarations.declarations[name].args;
+        } else {
+            this.names = Object.keys(getActions(...new Array(getActions.length) as CONTEXTARGS));
+            this.prefix = '';
+            this.declarations = {};
+
+            for (const name of this.names)
+                this.declarations[name] = this.schemas[name]
+                    ? { args: this.schemas[name] }
+                    : {};
+        }
+
+        for (const name of this.names) {
+            const fullName = this.prefix + name;
+
+            const reference = registerRule({
+                kind: `reference.${fullName}`,
+                actions: [fullName],
+            }, (...args: any[]) => {
+                recordCoverage(reference, 'referenced');
+                return new ActionReference(fullName, ...args);
+            });
+
+            const scoredReference = registerRule({
+                kind: `scoredReference.${fullName}`,
+                actions: [fullName],
+            }, (score: number, ...args: any[]) => {
+                recordCoverage(scoredReference, 'referenced');
+                return Scored.from(new ActionReference(fullName, ...args), score);
+            });
+
+            this.reference[name] = reference;
+            this.scoredReference[name] = scoredReference;
             }
     }
 
     /**
-     * Creates a new transform which runs the function referenced by an ActionReference
+     * Combines several ActionReferences with the same context arguments, e.g. each declared in its own namespace, into one which runs all of their actions.
+     * Their middleware and guard fallbacks are not included: add them to the combination.
+     * @param actionReferences The ActionReferences to combine
+     * @returns A new ActionReferences, whose `reference` stubs are keyed by the full names of the actions, e.g. 'billing.refund'. Throws a PragueError if two actions have the same name.
+     */
+
+    static merge <
+        CONTEXTARGS extends any[],
+    > (
+        ...actionReferences: ActionReferences<CONTEXTARGS, any>[]
+    ) {
+        const declarations: Declarations = {};
+        const compensations: Record<string, any> = {};
+        const guards: Record<string, any> = {};
+
+        for (const actions of actionReferences)
+            for (const name of actions.names) {
+                const fullName = actions.prefix + name;
+
+                if (declarations[fullName])
+                    throw new PragueError(`${fullName} is declared more than once`);
+
+                declarations[fullName] = {
+                    ... actions.declarations[name],
+                    args: actions.schemas[name],
+                };
+
+                if (actions.compensations[name])
+                    compensations[fullName] = actions.compensations[name]!;
+
+                if (actions.guards[name])
+                    guards[fullName] = actions.guards[name]!;
+            }
+
+        return new ActionReferences((...contextArgs: CONTEXTARGS) => {
+            const implementations: Record<string, (...args: any[]) => any> = {};
+
+            for (const actions of actionReferences) {
+                const implemented = actions.getActions(...contextArgs);
+
+                for (const name of actions.names)
+                    if (implemented[name])
+                        implementations[actions.prefix + name] = implemented[name];
+            }
+
+            return implementations;
+        }, {}, new ActionDeclarations(declarations))
+            .compensate(compensations)
+            .guard(guards);
+    }
+
+    private nameOf (
+        fullName: string,
+    ) {
+        const name = fullName.startsWith(this.prefix)
+            ? fullName.slice(this.prefix.length)
+            : undefined;
+
+        return name !== undefined && this.names.includes(name)
+            ? name
+            : undefined;
+    }
+
+    /**
+     * Retrieves the declaration of an action
+     * @param name The full name of the action, e.g. 'billing.refund'
+     * @returns The ActionDeclaration (which, if the actions weren't declared, holds just the schemas of its args), or undefined if there is no such action
+     */
+
+    declarationOf (
+        name: string,
+    ): ActionDeclaration | undefined {
+        const key = this.nameOf(name);
+
+        return key === undefined
+            ? undefined
+            : this.declarations[key];
+    }
+
+    /**
+     * Recreates an ActionReference from its wire format, e.g. one stored, or sent by another process
+     * @param serialized A SerializedActionReference, or the JSON of one
+     * @returns A new ActionReference. Throws an UnknownActionError if there is no such action, or an InvalidActionReferenceError if it is malformed, or its args don't match the action's schema.
+     */
+
+    deserialize (
+        serialized: string | SerializedActionReference,
+    ) {
+        let o: any;
+
+        try {
+            o = typeof serialized === 'string'
+                ? JSON.parse(serialized)
+                : serialized;
+        } catch (error) {
+            throw new InvalidActionReferenceError(`invalid JSON: ${error.message}`);
+        }
+
+        if (!o || typeof o !== 'object' || typeof o.name !== 'string' || !Array.isArray(o.args))
+            throw new InvalidActionReferenceError("an ActionReference must have a string name and an array of args");
+
+        const name = this.nameOf(o.name);
+
+        if (name === undefined)
+            throw new UnknownActionError(o.name);
+
+        const schema = this.schemas[name];
+
+        if (schema) {
+            if (o.args.length > schema.length)
+                throw new InvalidActionReferenceError(`${o.name} takes at most ${schema.length} args, not ${o.args.length}`, o.name);
+
+            const invalid = schema.findIndex((argSchema, i) => !isValid(argSchema, o.args[i]));
+
+            if (invalid >= 0)
+                throw new InvalidActionReferenceError(`arg ${invalid} of ${o.name} doesn't match its schema`, o.name);
+        }
+
+        return new ActionReference(o.name, ... o.args);
+    }
+
+    /**
+     * Adds middleware to the chain which `doAction` and `run` run each ActionReference through. The first added is the outermost.
+     * @param middleware The middleware to add
+     * @returns this, so that calls can be chained
+     */
+
+    use (
+        ...middleware: ActionMiddleware<CONTEXTARGS>[]
+    ) {
+        this.middleware.push(...middleware);
+
+        return this;
+    }
+
+    /**
+     * Registers the inverses of some or all actions, e.g. for a Journal to undo them
+     * @param compensations For each action, a function which creates the ActionReference which undoes it
+     * @returns this, so that calls can be chained
+     */
+
+    compensate (
+        compensations: Compensations<ACTIONS>,
+    ) {
+        Object.assign(this.compensations, compensations);
+
+        return this;
+    }
+
+    /**
+     * Creates the ActionReference which undoes another
+     * @param reference The ActionReference to undo
+     * @returns The ActionReference created by its action's compensation, or null if it has none
+     */
+
+    compensationOf (
+        reference: ActionReference,
+    ) {
+        const name = this.nameOf(reference.name);
+        const compensation = name === undefined
+            ? undefined
+            : this.compensations[name] as ((...args: any[]) => ActionReference | null) | undefined;
+
+        return compensation
+            ? compensation(...reference.args)
+            : null;
+    }
+
+    /**
+     * Registers guards for some or all actions. `doAction` only runs an action if its guard returns true.
+     * @param guards For each action, a predicate which decides whether it may run
+     * @param options (optional) fallback
+     * @returns this, so that calls can be chained
+     */
+
+    guard (
+        guards: Guards<CONTEXTARGS, ACTIONS>,
+        options: GuardOptions = {},
+    ) {
+        Object.assign(this.guards, guards);
+
+        if (options.fallback)
+            this.guardFallback = options.fallback;
+
+        return this;
+    }
+
+    private isAllowed (
+        reference: ActionReference,
+        contextArgs: CONTEXTARGS,
+    ) {
+        const name = this.nameOf(reference.name);
+        const guard = name === undefined
+            ? undefined
+            : this.guards[name] as ((contextArgs: CONTEXTARGS, ...args: any[]) => Returns<boolean>) | undefined;
+
+        return guard
+            ? new Promise<boolean>(resolve => resolve(guard(contextArgs, ...reference.args))).then(allowed => !!allowed)
+            : Promise.resolve(true);
+    }
+
+    /**
+     * Creates a new transform which drops the ActionReferences whose guards refuse them, e.g. before `sort` and `top`, or within `best`
+     * @param contextArgs the arguments to pass to the guards
+     * @returns A new transform which, given an array, returns those of its elements which aren't (Scored) ActionReferences, or whose guards allow them. Given a single (Scored) ActionReference it returns it if its guard allows it, otherwise null. Anything else it returns as is.
+     */
+
+    allowed (
+        ...contextArgs: CONTEXTARGS
+    ) {
+        const isAllowed = (o: any) => {
+            const reference = Scored.unwrap(o);
+
+            return reference instanceof ActionReference
+                ? this.isAllowed(reference, contextArgs)
+                : Promise.resolve(true);
+        }
+
+        return registerRule({
+            kind: 'allowed',
+        }, <O> (o: O) => (Array.isArray(o)
+            ? Promise.all(o.map(isAllowed)).then(allowed => o.filter((_, i) => allowed[i]))
+            : isAllowed(o).then(allowed => allowed ? o : null)
+        ) as Promise<O | null>);
+    }
+
+    /**
+     * Creates a new transform which runs the function referenced by an ActionReference, through the middleware added with `use`, or the functions referenced by an ActionBatch, each through the middleware. An array of (Scored) ActionReferences and ActionBatches, e.g. from `top`, runs as a sequence.
      * @param contextArgs the arguments to pass to the getActions function passed to the constructor
-     * @returns A new transform
+     * @returns A new transform which returns the result of the function, the array of results of an ActionBatch or array, or null for anything else, including an empty array. Rejects with a PragueError for an array with anything else in it.
      */
 
     doAction <
@@ -80,24 +616,104 @@ export class ActionReferences <
     > (
         ...contextArgs: CONTEXTARGS
     ) {
-        return (result: RESULT) => {
-            if (!(result instanceof ActionReference))
+        return registerRule({
+            kind: 'doAction',
+        }, (result: RESULT) => {
+            let o: any = result;
+
+            if (Array.isArray(result) && result.length > 0) {
+                const elements = result.map(o => Scored.unwrap(o));
+
+                if (!elements.every(o => o instanceof ActionReference || o instanceof ActionBatch))
+                    return Promise.reject(new PragueError("doAction can only run an array of (Scored) ActionReferences and ActionBatches"));
+
+                o = sequence(...elements);
+            }
+
+            if (!(o instanceof ActionReference || o instanceof ActionBatch))
                 return Promise.resolve(null);
 
-            const action = this.getActions(...contextArgs)[result.name];
+            const context = getContext();
+            const actions = this.getActions(...contextArgs);
 
-            if (!action)
-                throw `unknown action ${result.name}`;
+            const dispatch = (
+                i: number,
+                reference: ActionReference,
+                isFallback: boolean,
+            ): Promise<any> => {
+                if (i < this.middleware.length)
+                    return invoke(context, this.middleware[i] as Function as (...args: any[]) => any, [
+                        reference,
+                        (next: ActionReference = reference) => dispatch(i + 1, next, isFallback),
+                        ...contextArgs,
+                    ]);
 
-            return toPromise(action(...result.args));
-        };
+                return callAction(reference, isFallback);
+            }
+
+            const callAction = (
+                reference: ActionReference,
+                isFallback: boolean,
+            ): Promise<any> => {
+                const name = this.nameOf(reference.name);
+                const action = name === undefined
+                    ? undefined
+                    : actions[name];
+
+                if (!action)
+                    return Promise.reject(new UnknownActionError(reference.name));
+
+                return this.isAllowed(reference, contextArgs)
+                    .then(allowed => {
+                        if (allowed)
+                            return invoke(context, action as (...args: any[]) => any, reference.args);
+
+                        // the fallback runs through the middleware too, but isn't given a fallback of its own, so that refusals can't loop
+                        if (this.guardFallback && !isFallback)
+                            return dispatch(0, this.guardFallback(reference), true);
+
+                        throw new ForbiddenActionError(reference.name);
+                    });
+            }
+
+            const runBatch = (
+                batch: ActionBatch,
+            ): Promise<any[]> => {
+                const attempt = (o: ActionReference | ActionBatch) => batch.options.onError === 'collect'
+                    ? runAction(o).catch(error => {
+                        if (!isRecoverable(error))
+                            throw error;
+
+                        return new Err(error);
+                    })
+                    : runAction(o);
+
+                return batch.mode === 'parallel'
+                    ? Promise.all(batch.actions.map(attempt))
+                    : batch.actions.reduce(
+                        (results, o) => results.then(async results => {
+                            throwIfAborted(context);
+                            return [... results, await attempt(o)];
+                        }),
+                        Promise.resolve([] as any[]),
+                    );
+            }
+
+            const runAction = (
+                o: ActionReference | ActionBatch,
+            ): Promise<any> => o instanceof ActionBatch
+                ? runBatch(o)
+                : dispatch(0, o, false);
+
+            return runAction(o);
+        });
     }
 
     /**
-     * Wraps a function in a new transform which runs the function and runs the function reference if it's an ActionReference
+     * Wraps a function in a new transform which runs the function and runs the function reference if it's an ActionReference, i.e. `tube(transform, doAction(...contextArgs))`
      * @param transform the function whose result may be a function to run
      * @param contextArgs the arguments to pass to the getActions function passed to the constructor
-     * @returns A new transform
+     * @returns A new transform which returns the result of the action, e.g. Reducers for `ConversationStates.turn`, like `doAction`
      */
 
     run <
@@ -106,9 +722,12 @@ export class ActionReferences <
         transform: (...args: ARGS) => any,
         ...contextArgs: CONTEXTARGS
     ) {
-        return tube(
+        return registerRule({
+            kind: 'run',
+            children: [transform],
+        }, tube(
             transform,
-            tap(this.doAction(...contextArgs)),
-        );
+            this.doAction(...contextArgs),
+        ));
     }
 }
@@ -0,0 +1,333 @@
+import { Scored, Sourced, ActionReference, registerRule, PragueError, InvalidScoreError } from './prague';
+
+const checkScore = (
+    score: number,
+) => {
+    if (typeof score !== 'number' || !(score >= 0 && score <= 1))
+        throw new InvalidScoreError(score, ">= 0 and <= 1");
+
+    return score;
+}
+
+export interface CalibrationOptions {
+    /**
+     * (optional) the range of the raw scores, which is mapped linearly onto 0 to 1, e.g. [0, 100] for percentages
+     */
+    range?: [number, number];
+
+    /**
+     * (optional) a function applied to each score after mapping the range, e.g. a logistic curve
+     */
+    map?: (score: number) => number;
+
+    /**
+     * What to do with a score which is still outside 0 to 1: 'reject' (the default) throws an InvalidScoreError, 'clamp' moves it to the nearest of 0 and 1.
+     */
+    outOfRange?: 'reject' | 'clamp';
+}
+
+/**
+ * Creates a function which calibrates raw scores, e.g. from a recognizer, to scores from 0 to 1
+ * @param options (optional) range, map, and/or outOfRange
+ * @returns A new function which returns the calibrated score, and throws an InvalidScoreError if the raw score isn't a number, or it's out of range and outOfRange is 'reject'
+ */
+
+export const calibrator = (
+    options: CalibrationOptions = {},
+) => {
+    const range = options.range;
+
+    if (range && !(Array.isArray(range) && range[0] < range[1]))
+        throw new PragueError("range must be [min, max], with min < max");
+
+    if (options.outOfRange !== undefined && options.outOfRange !== 'reject' && options.outOfRange !== 'clamp')
+        throw new PragueError("outOfRange must be 'reject' or 'clamp'");
+
+    return (
+        score: number,
+    ) => {
+        if (typeof score !== 'number' || isNaN(score))
+            throw new InvalidScoreError(score, ">= 0 and <= 1");
+
+        let calibrated = range
+            ? (score - range[0]) / (range[1] - range[0])
+            : score;
+
+        if (options.map)
+            calibrated = options.map(calibrated);
+
+        if (options.outOfRange === 'clamp' && typeof calibrated === 'number' && !isNaN(calibrated))
+            calibrated = Math.min(1, Math.max(0, calibrated));
+
+        return checkScore(calibrated);
+    }
+}
+
+type Unscored<T> = T extends Scored<infer U> ? U : T;
+
+type Rescored<O> = O extends Array<infer T>
+    ? Scored<Unscored<T>>[]
+    : Scored<Unscored<NonNullable<O>>> | null;
+
+/**
+ * Creates a transform which changes the scores of results
+ * @param score Creates the new score from the old one and the result. It must be from 0 to 1.
+ * @returns A new transform which, given an array, returns each element as a Scored with its new score, leaving out those whose new score is 0. Given anything else, it does the same for that, or returns null. Rejects with an InvalidScoreError if a new score is out of range.
+ */
+
+export const rescore = (
+    score: (score: number, result: any) => number,
+) => {
+    const rescoreOne = (o: any) => {
+        if (o == null)
+            return null;
+
+        const scored = Scored.from(o);
+
+        return Scored.from(scored.result, checkScore(score(scored.score, scored.result)));
+    }
+
+    return registerRule({
+        kind: 'rescore',
+        children: [score],
+    }, <O> (o: O) => new Promise<Rescored<O>>(resolve => resolve((Array.isArray(o)
+        ? o.map(rescoreOne).filter(scored => scored != null)
+        : rescoreOne(o)
+    ) as Rescored<O>)));
+}
+
+/**
+ * Creates a transform which boosts (or, with a factor below 1, penalizes) the scores of some results, e.g. based on the state of the conversation
+ * @param factor The number by which to multiply the scores. Boosted scores are capped at 1.
+ * @param predicate Decides whether to change the score of a result
+ * @returns A new transform like the one returned by `rescore`
+ */
+
+export const boost = (
+    factor: number,
+    predicate: (result: any, score: number) => boolean,
+) => {
+    if (typeof factor !== 'number' || !(factor >= 0))
+        throw new PragueError("factor must be a number >= 0");
+
+    return rescore((score, result) => predicate(result, score)
+        ? Math.min(1, score * factor)
+        : score
+    );
+}
+
+/**
+ * A function which combines the scores of a result from several sources into one
+ * @param scores The scores
+ * @param sources The source of each score: the source of its Sourced, e.g. the index of the function which returned it, from `toArrayWith({ sourced: true })`, or undefined
+ * @returns The combined score, from 0 to 1
+ */
+
+export type ScoreCombiner = (
+    scores: number[],
+    sources: any[],
+) => number;
+
+/**
+ * Combines scores by taking the highest
+ */
+
+export const maxScore: ScoreCombiner = scores => Math.max(... scores);
+
+/**
+ * Combines scores by taking their mean
+ */
+
+export const meanScore: ScoreCombiner = scores => scores.reduce((sum, score) => sum + score, 0) / scores.length;
+
+/**
+ * Combines scores as independent pieces of evidence: the result is wrong only if every source is wrong
+ */
+
+export const noisyOrScore: ScoreCombiner = scores => 1 - scores.reduce((p, score) => p * (1 - score), 1);
+
+/**
+ * Creates a ScoreCombiner which takes a weighted mean over every source, counting a source which didn't return the result as 0
+ * @param weights The weight of each source, by the index of the function which returned it. Use with `toArrayWith({ sourced: true })`.
+ * @returns A new ScoreCombiner, which throws a PragueError for a source without a weight, e.g. a result which isn't Sourced
+ */
+
+export const weightedScore = (
+    weights: number[],
+): ScoreCombiner => {
+    if (!Array.isArray(weights) || weights.some(weight => typeof weight !== 'number' || !(weight >= 0)))
+        throw new PragueError("weights must be numbers >= 0");
+
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    if (!(total > 0))
+        throw new PragueError("at least one weight must be > 0");
+
+    return (scores, sources) => scores.reduce((sum, score, i) => {
+        if (!(typeof sources[i] === 'number' && sources[i] >= 0 && sources[i] < weights.length))
+            throw new PragueError(`there is no weight for source ${sources[i]}`);
+
+        return sum + score * weights[sources[i]];
+    }, 0) / total;
+}
+
+export interface CombineOptions {
+    /**
+     * (optional) decides whether two results are the same. Defaults to ===.
+     */
+    equals?: (a: any, b: any) => boolean;
+}
+
+interface Group {
+    result: any;
+    scores: number[];
+    sources: any[];
+    sourced: Sourced<any>[];
+}
+
+// Results may be wrapped in a Scored and a Sourced, in either order
+
+const unwrapItem = (
+    item: any,
+) => {
+    if (item instanceof Sourced) {
+        const scored = Scored.from(item.result);
+
+        return scored && { result: scored.result, score: scored.score, sourced: item };
+    }
+
+    const scored = Scored.from(item);
+
+    return scored.result instanceof Sourced
+        ? scored.result.result == null
+            ? null
+            : { result: Scored.unwrap(scored.result.result), score: scored.score, sourced: scored.result as Sourced<any> }
+        : { result: scored.result, score: scored.score, sourced: undefined };
+}
+
+const merge = (
+    items: any[],
+    combiner: ScoreCombiner,
+    equals: (a: any, b: any) => boolean,
+) => {
+    const groups: Group[] = [];
+
+    items.forEach(item => {
+        const unwrapped = item == null
+            ? null
+            : unwrapItem(item);
+
+        if (!unwrapped)
+            return;
+
+        let group = groups.find(group => equals(group.result, unwrapped.result));
+
+        if (!group)
+            groups.push(group = { result: unwrapped.result, scores: [], sources: [], sourced: [] });
+
+        group.scores.push(unwrapped.score);
+        group.sources.push(unwrapped.sourced && unwrapped.sourced.source);
+
+        if (unwrapped.sourced)
+            group.sourced.push(unwrapped.sourced);
+    });
+
+    return groups
+        .map(group => Scored.from(
+            group.sourced.length === 0
+                ? group.result
+                : new Sourced(group.result, group.sourced.length === 1
+                    ? group.sourced[0].source
+                    : group.sourced.map(sourced => sourced.source)
+                ),
+            checkScore(combiner(group.scores, group.sources)),
+        ))
+        .filter(scored => scored != null);
+}
+
+/**
+ * Creates a transform which merges the results of several sources which are the same, combining their scores
+ * @param combiner Combines the scores of each result, e.g. maxScore, meanScore, noisyOrScore, or weightedScore
+ * @param options (optional) equals
+ * @returns A new transform which, given an array, e.g. from `toArray`, returns an array of each different result as a Scored with its combined score, in the order each first appears, leaving out nulls and those whose combined score is 0. Where results are Sourced, so is the merged result, with an array of their sources if there are several. Anything else it returns as is. Rejects with an InvalidScoreError if a combined score is out of range.
+ */
+
+export const combine = (
+    combiner: ScoreCombiner,
+    options: CombineOptions = {},
+) => {
+    const equals = options.equals || ((a: any, b: any) => a === b);
+
+    return registerRule({
+        kind: 'combine',
+        children: [combiner],
+    }, <O> (o: O) => new Promise<O extends Array<infer T> ? Scored<Unscored<T>>[] : O>(resolve => resolve(Array.isArray(o)
+        ? merge(o, combiner, equals) as any
+        : o
+    )));
+}
+
+const deepEquals = (
+    a: any,
+    b: any,
+): boolean => {
+    if (a === b)
+        return true;
+
+    if (!(a instanceof Object) || !(b instanceof Object) || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b))
+        return false;
+
+    if (Array.isArray(a))
+        return a.length === b.length && a.every((item, i) => deepEquals(item, b[i]));
+
+    const keys = Object.keys(a);
+
+    return keys.length === Object.keys(b).length && keys.every(key => b.hasOwnProperty(key) && deepEquals(a[key], b[key]));
+}
+
+/**
+ * Decides whether two results are the same: ActionReferences if they have the same name and deeply equal args, anything else if it's ===
+ * @param a One result
+ * @param b The other result
+ * @returns true if they are the same, false otherwise
+ */
+
+export const sameResult = (
+    a: any,
+    b: any,
+) => a instanceof ActionReference && b instanceof ActionReference
+    ? a.name === b.name && deepEquals(a.args, b.args)
+    : a === b;
+
+export interface DedupeOptions {
+    /**
+     * (optional) decides whether two results are the same. Defaults to sameResult.
+     */
+    equals?: (a: any, b: any) => boolean;
+
+    /**
+     * (optional) combines the scores of the duplicates. Defaults to maxScore.
+     */
+    merge?: ScoreCombiner;
+}
+
+/**
+ * Creates a transform which collapses duplicate results, e.g. the same ActionReference proposed by several recognizers, into one
+ * @param options (optional) equals and/or merge
+ * @returns A new transform like the one returned by `combine`
+ */
+
+export const dedupe = (
+    options: DedupeOptions = {},
+) => {
+    const equals = options.equals || sameResult;
+    const combiner = options.merge || maxScore;
+
+    return registerRule({
+        kind: 'dedupe',
+        children: [combiner],
+    }, <O> (o: O) => new Promise<O extends Array<any> ? Scored<any>[] : O>(resolve => resolve(Array.isArray(o)
+        ? merge(o, combiner, equals) as any
+        : o
+    )));
+}
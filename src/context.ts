@@ -0,0 +1,276 @@
+import { Returns, toPromise, promiseOfNull, TraceNode, AbortError, TimeoutError, isRecoverable, Reducer } from './prague';
+
+/**
+ * Information shared by every transform taking part in a single evaluation, without changing their arguments
+ */
+
+export interface Context {
+    /**
+     * When aborted, combinators stop calling transforms and reject with an AbortError
+     */
+    signal?: AbortSignal;
+
+    /**
+     * The time (in milliseconds since the epoch) by which every transform must finish. Late transforms count as null.
+     */
+    deadline?: number;
+
+    /**
+     * true to reject with a TimeoutError, instead of counting as null, when a transform misses the deadline
+     */
+    throwOnTimeout?: boolean;
+
+    /**
+     * The record of the transform currently being called, if it is being traced
+     */
+    trace?: TraceNode;
+
+    /**
+     * When present, `first`, `toArray`, and `best` treat a transform which throws as having returned null, and pass its error here
+     */
+    onError?: (error: any) => void;
+
+    /**
+     * The results of transforms memoized with `{ scope: 'evaluation' }`, dropped when the `cacheScope` which created it finishes
+     */
+    cache?: Map<Function, Map<any, any>>;
+
+    /**
+     * The state updates queued with `updateState` during the current `ConversationStates.turn`
+     */
+    stateUpdates?: Reducer<any>[];
+}
+
+const emptyContext: Context = {};
+
+let currentContext = emptyContext;
+
+/**
+ * Retrieves the Context of the transform currently being called. Must be called synchronously, i.e. before any `await`.
+ * @returns The current Context
+ */
+
+export const getContext = () => currentContext;
+
+/**
+ * Throws an AbortError if the supplied Context has been aborted
+ * @param context The Context to check
+ */
+
+export const throwIfAborted = (
+    context: Context,
+) => {
+    if (context.signal && context.signal.aborted)
+        throw new AbortError();
+}
+
+const timedOut = (
+    context: Context,
+) => context.throwOnTimeout
+    ? Promise.reject(new TimeoutError())
+    : promiseOfNull;
+
+const beforeDeadline = <O> (
+    promise: Promise<O>,
+    context: Context,
+) => {
+    const deadline = context.deadline;
+
+    return deadline === undefined
+        ? promise
+        : new Promise<O>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                timedOut(context).then(resolve as any, reject);
+            }, deadline - Date.now());
+
+            promise.then(o => {
+                clearTimeout(timer);
+                resolve(o);
+            }, err => {
+                clearTimeout(timer);
+                reject(err);
+            });
+        });
+}
+
+const abortable = <O> (
+    promise: Promise<O>,
+    signal: AbortSignal | undefined,
+) => signal
+    ? new Promise<O>((resolve, reject) => {
+        const onAbort = () => reject(new AbortError());
+
+        signal.addEventListener('abort', onAbort);
+
+        promise.then(o => {
+            signal.removeEventListener('abort', onAbort);
+            resolve(o);
+        }, err => {
+            signal.removeEventListener('abort', onAbort);
+            reject(err);
+        });
+    })
+    : promise;
+
+/**
+ * Creates an AbortController, or, where AbortController isn't global (before Node 15), a minimal stand-in with a compatible `signal` and `abort`
+ * @returns A new AbortController
+ */
+
+export const createAbortController = (): AbortController => {
+    if (typeof AbortController !== 'undefined')
+        return new AbortController();
+
+    const listeners = new Set<() => void>();
+
+    const signal = {
+        aborted: false,
+        addEventListener: (type: string, listener: () => void) => {
+            if (type === 'abort')
+                listeners.add(listener);
+        },
+        removeEventListener: (type: string, listener: () => void) => {
+            listeners.delete(listener);
+        },
+    };
+
+    return {
+        signal,
+        abort: () => {
+            if (signal.aborted)
+                return;
+
+            signal.aborted = true;
+
+            for (const listener of [... listeners])
+                listener();
+        },
+    } as any as AbortController;
+}
+
+const composites = new WeakSet<Function>();
+
+/**
+ * Marks a transform as one which calls the transforms it composes with `invoke`. Deadlines are enforced on those transforms instead of on the composite, so that it can still return the results which arrived in time.
+ * @param transform The transform to mark
+ * @returns The transform
+ */
+
+export const composite = <
+    T extends Function,
+> (
+    transform: T,
+) => {
+    composites.add(transform);
+    return transform;
+}
+
+/**
+ * Determines whether a transform was marked with `composite`
+ * @param transform The transform
+ */
+
+export const isComposite = (
+    transform: Function,
+) => composites.has(transform);
+
+/**
+ * Calls a function within a Context. This is how combinators pass their Context along to the functions they compose.
+ * @param context The Context in which to call the function
+ * @param transform The function to call
+ * @param args The arguments to the function
+ * @returns A Promise of the result of the function (rejecting if the function throws), which rejects with an AbortError if the Context is aborted first, and, unless the function is a composite, resolves to null (or rejects with a TimeoutError) if the Context's deadline passes first
+ */
+
+export const invoke = <
+    ARGS extends any[],
+    O,
+> (
+    context: Context,
+    transform: (...args: ARGS) => Returns<O>,
+    args: ARGS,
+) => {
+    try {
+        throwIfAborted(context);
+    } catch (err) {
+        return Promise.reject(err) as Promise<O>;
+    }
+
+    const node = context.trace && context.trace.child(transform, args);
+
+    if (node)
+        context = {
+            ... context,
+            trace: node,
+        };
+
+    const prevContext = currentContext;
+    currentContext = context;
+
+    try {
+        let o = abortable(toPromise(transform(...args)), context.signal);
+
+        if (!composites.has(transform))
+            o = beforeDeadline(o, context);
+
+        return node
+            ? node.settle(o)
+            : o;
+    } catch (err) {
+        const o = Promise.reject(err) as Promise<O>;
+
+        return node
+            ? node.settle(o)
+            : o;
+    } finally {
+        currentContext = prevContext;
+    }
+}
+
+/**
+ * Calls a function like `invoke`, but if the Context has an `onError` handler, passes it any error (other than an AbortError or TimeoutError) and returns null instead
+ * @param context The Context in which to call the function
+ * @param transform The function to call
+ * @param args The arguments to the function
+ * @returns A Promise of the result of the function, or null if it throws and the Context has an `onError` handler
+ */
+
+export const tryInvoke = <
+    ARGS extends any[],
+    O,
+> (
+    context: Context,
+    transform: (...args: ARGS) => Returns<O>,
+    args: ARGS,
+) => {
+    const onError = context.onError;
+    const o = invoke(context, transform, args);
+
+    return onError
+        ? o.catch(error => {
+            if (!isRecoverable(error))
+                throw error;
+
+            onError(error);
+            return null;
+        }) as Promise<O | null>
+        : o;
+}
+
+/**
+ * Wraps a function in a new transform which runs it, and every transform it composes, within the supplied Context
+ * @param context The values to add to the current Context
+ * @param transform The function to run
+ * @returns A new transform
+ */
+
+export const withContext = <
+    ARGS extends any[],
+    O,
+> (
+    context: Context,
+    transform: (...args: ARGS) => Returns<O>,
+) => composite((...args: ARGS) => invoke({
+    ... getContext(),
+    ... context,
+}, transform, args));
@@ -1,3 +1,5 @@
+import { PragueError } from './prague';
+
 /**
  * A type of a value or a Promise thereof 
  * @param T The type of the value
@@ -34,7 +36,7 @@ export const from = <
     fn: (...args: ARGS) => Returns<O>,
 ) => {
     if (typeof fn !== 'function')
-        throw new Error("I can't transform that.");
+        throw new PragueError("I can't transform that.");
 
     return (...args: ARGS) => toPromise(fn(...args));
 }
@@ -0,0 +1,218 @@
+import { getRuleInfo, nameOf } from './prague';
+
+const activeCoverages = new Set<Coverage>();
+
+/**
+ * Records that a point within a transform was reached, for every active Coverage
+ * @param transform The transform
+ * @param point The point within the transform, e.g. 'onNull'
+ */
+
+export const recordCoverage = (
+    transform: Function,
+    point: string,
+) => {
+    for (const coverage of activeCoverages)
+        coverage.record(transform, point);
+}
+
+/**
+ * Determines whether any Coverage is collecting
+ */
+
+export const isCoverageActive = () => activeCoverages.size > 0;
+
+export interface UnreachedBranch {
+    /**
+     * The names of the rules leading to the match, matchIf, or branch, separated by ' > '
+     */
+    path: string;
+    branch: 'onResult' | 'onNull';
+}
+
+export interface NeverWinningAlternative {
+    /**
+     * The names of the rules leading to the first or best, separated by ' > '
+     */
+    path: string;
+    index: number;
+    name: string;
+}
+
+export interface CoverageReport {
+    unreachedBranches: UnreachedBranch[];
+    neverWinningAlternatives: NeverWinningAlternative[];
+    unreferencedActions: string[];
+}
+
+/**
+ * Collects which parts of your rules were reached while it was started, e.g. during a test run
+ */
+
+export class Coverage {
+    private points = new Map<Function, Map<string, number>>();
+
+    /**
+     * Start collecting
+     */
+
+    start () {
+        activeCoverages.add(this);
+    }
+
+    /**
+     * Stop collecting
+     */
+
+    stop () {
+        activeCoverages.delete(this);
+    }
+
+    /**
+     * Forget everything collected so far
+     */
+
+    clear () {
+        this.points.clear();
+    }
+
+    /**
+     * Records that a point within a transform was reached
+     * @param transform The transform
+     * @param point The point within the transform, e.g. 'onNull'
+     */
+
+    record (
+        transform: Function,
+        point: string,
+    ) {
+        let points = this.points.get(transform);
+
+        if (!points) {
+            points = new Map();
+            this.points.set(transform, points);
+        }
+
+        points.set(point, (points.get(point) || 0) + 1);
+    }
+
+    /**
+     * The number of times a point within a transform was reached
+     * @param transform The transform
+     * @param point The point within the transform, e.g. 'onNull'
+     */
+
+    count (
+        transform: Function,
+        point: string,
+    ) {
+        const points = this.points.get(transform);
+
+        return points && points.get(point) || 0;
+    }
+
+    /**
+     * Reports on the parts of a transform's rules which were never reached
+     * @param transform The transform, e.g. your top-level bot logic
+     * @returns A CoverageReport
+     */
+
+    report (
+        transform: Function,
+    ): CoverageReport {
+        const report: CoverageReport = {
+            unreachedBranches: [],
+            neverWinningAlternatives: [],
+            unreferencedActions: [],
+        };
+
+        const actions = new Map<string, boolean>();
+
+        const visit = (
+            transform: Function,
+            path: Function[],
+        ) => {
+            if (path.includes(transform))
+                return;
+
+            path = [... path, transform];
+
+            const info = getRuleInfo(transform);
+            const children = info.children || [];
+            const pathName = path.map(nameOf).join(' > ');
+            const count = (point: string) => this.count(info.wraps || transform, point);
+
+            switch (info.kind) {
+                case 'match':
+                case 'matchIf':
+                case 'branch':
+                    const [onResult, onNull] = info.kind === 'branch' ? children : children.slice(1);
+
+                    if (onResult && !count('onResult'))
+                        report.unreachedBranches.push({ path: pathName, branch: 'onResult' });
+
+                    if (onNull && !count('onNull'))
+                        report.unreachedBranches.push({ path: pathName, branch: 'onNull' });
+
+                    break;
+
+                case 'first':
+                case 'best':
+                    children.forEach((child, index) => {
+                        if (child && !count(`won ${index}`))
+                            report.neverWinningAlternatives.push({ path: pathName, index, name: nameOf(child) });
+                    });
+
+                    break;
+            }
+
+            for (const action of info.actions || [])
+                actions.set(action, actions.get(action) || count('referenced') > 0);
+
+            for (const child of children)
+                if (child)
+                    visit(child, path);
+        }
+
+        visit(transform, []);
+
+        for (const [action, referenced] of actions)
+            if (!referenced)
+                report.unreferencedActions.push(action);
+
+        return report;
+    }
+}
+
+/**
+ * Pretty-prints a CoverageReport
+ * @param report The report returned by `Coverage.report`
+ */
+
+export const formatCoverageReport = (
+    report: CoverageReport,
+) => {
+    const lines: string[] = [];
+
+    if (report.unreachedBranches.length)
+        lines.push(
+            `Branches never reached:`,
+            ... report.unreachedBranches.map(unreached => `  ${unreached.path}: ${unreached.branch}`),
+        );
+
+    if (report.neverWinningAlternatives.length)
+        lines.push(
+            `Alternatives which never won:`,
+            ... report.neverWinningAlternatives.map(alternative => `  ${alternative.path}: #${alternative.index} ${alternative.name}`),
+        );
+
+    if (report.unreferencedActions.length)
+        lines.push(
+            `Actions never referenced:`,
+            ... report.unreferencedActions.map(action => `  ${action}`),
+        );
+
+    return lines.length
+        ? lines.join('\n')
+        : `Every rule was covered.`;
+}
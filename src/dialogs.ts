@@ -0,0 +1,183 @@
+import { Returns, Reducer, getContext, invoke, composite, registerRule, PragueError } from './prague';
+
+/**
+ * An entry on the dialog stack: which dialog, and its own state
+ */
+
+export interface DialogInstance <
+    DIALOGSTATE = any,
+> {
+    name: string;
+    state: DIALOGSTATE;
+}
+
+/**
+ * The part of a conversation's state which holds its dialog stack. Include it in the state you keep with ConversationStates.
+ */
+
+export interface DialogsState {
+    dialogs?: DialogInstance[];
+}
+
+/**
+ * A dialog: rules which are called with the request and the dialog's own state, e.g. to handle the reply to a question
+ */
+
+export type Dialog <
+    REQ,
+    DIALOGSTATE,
+> = (req: REQ, state: Readonly<DIALOGSTATE>) => Returns<any>;
+
+/**
+ * Retrieves the active dialog of a conversation
+ * @param state The conversation's state
+ * @returns The top of its dialog stack, or undefined if it's empty
+ */
+
+export const activeDialog = (
+    state: Readonly<DialogsState>,
+) => {
+    const dialogs = state.dialogs || [];
+
+    return dialogs.length
+        ? dialogs[dialogs.length - 1]
+        : undefined;
+}
+
+/**
+ * A set of dialogs which can be pushed onto, and popped off, the dialog stack of a conversation.
+ * Turns are routed to the active dialog first, and then, if it returns null, to the root rules.
+ */
+
+export class Dialogs <
+    REQ,
+> {
+    private dialogs = new Map<string, Dialog<REQ, any>>();
+
+    /**
+     * Adds a dialog
+     * @param name The name with which to push the dialog
+     * @param dialog The dialog's rules
+     * @returns this, so that calls can be chained
+     */
+
+    add <
+        DIALOGSTATE,
+    > (
+        name: string,
+        dialog: Dialog<REQ, DIALOGSTATE>,
+    ) {
+        this.dialogs.set(name, dialog as Dialog<REQ, any>);
+
+        return this;
+    }
+
+    private get (
+        name: string,
+    ) {
+        const dialog = this.dialogs.get(name);
+
+        if (!dialog)
+            throw new PragueError(`unknown dialog ${name}`);
+
+        return dialog;
+    }
+
+    /**
+     * Creates a state update which makes a dialog the active one
+     * @param name The name of the dialog
+     * @param state The dialog's initial state
+     * @returns A Reducer of the conversation's state, e.g. to return from an action
+     */
+
+    push <
+        DIALOGSTATE,
+    > (
+        name: string,
+        state: DIALOGSTATE,
+    ) {
+        this.get(name);
+
+        return <S extends DialogsState> (conversationState: Readonly<S>) => ({
+            ... conversationState as DialogsState,
+            dialogs: [
+                ... (conversationState as DialogsState).dialogs || [],
+                { name, state },
+            ],
+        }) as S;
+    }
+
+    /**
+     * Creates a state update which ends the active dialog, making the one below it (if any) the active one
+     * @returns A Reducer of the conversation's state, e.g. to return from an action
+     */
+
+    pop () {
+        return <S extends DialogsState> (conversationState: Readonly<S>) => ({
+            ... conversationState as DialogsState,
+            dialogs: ((conversationState as DialogsState).dialogs || []).slice(0, -1),
+        }) as S;
+    }
+
+    /**
+     * Creates a state update which updates the state of the active dialog
+     * @param reducer A Reducer of the active dialog's state
+     * @returns A Reducer of the conversation's state, e.g. to return from an action
+     */
+
+    update <
+        DIALOGSTATE,
+    > (
+        reducer: Reducer<DIALOGSTATE>,
+    ) {
+        return <S extends DialogsState> (conversationState: Readonly<S>) => {
+            const active = activeDialog(conversationState);
+
+            return (active
+                ? {
+                    ... conversationState as DialogsState,
+                    dialogs: [
+                        ... (conversationState as DialogsState).dialogs!.slice(0, -1),
+                        { name: active.name, state: reducer(active.state) },
+                    ],
+                }
+                : conversationState
+            ) as S;
+        }
+    }
+
+    /**
+     * Wraps the root rules in a new transform which routes each turn to the active dialog first
+     * @param root The rules to run when there is no active dialog, or it returns null
+     * @returns A new transform, which takes the request and the conversation's state
+     */
+
+    route <
+        S extends DialogsState,
+        O,
+    > (
+        root: (req: REQ, state: Readonly<S>) => Returns<O>,
+    ) {
+        return registerRule({
+            kind: 'dialogs',
+            children: [... this.dialogs.values(), root],
+        }, composite((req: REQ, state: Readonly<S>) => {
+            const context = getContext();
+            const active = activeDialog(state);
+
+            if (!active)
+                return invoke(context, root, [req, state] as [REQ, Readonly<S>]);
+
+            const dialog = this.dialogs.get(active.name);
+
+            if (!dialog)
+                return Promise.reject(new PragueError(`unknown dialog ${active.name}`)) as Promise<any>;
+
+            return invoke(context, dialog, [req, active.state])
+                .then(o => o != null
+                    ? o
+                    : invoke(context, root, [req, state] as [REQ, Readonly<S>])
+                );
+        }));
+    }
+}
@@ -0,0 +1,133 @@
+import { Returns, toPromise, getContext, registerRule, Scored, ActionReference, SerializedActionReference, Dialog, Dialogs, recognizeChoice, normalizeText, updateState, PragueError } from './prague';
+
+/**
+ * One of the ActionReferences the user is asked to choose between, in a form which can be kept in a conversation's state
+ */
+
+export interface Candidate extends SerializedActionReference {
+    /**
+     * The ways the user may refer to it, the first of which describes it in the question
+     */
+    names: string[];
+}
+
+/**
+ * The state of the dialog which handles the reply to a clarifying question
+ */
+
+export interface DisambiguationState {
+    candidates: Candidate[];
+}
+
+export interface DisambiguateOptions {
+    /**
+     * (optional) describes a candidate, with a name or a list of names, the first of which describes it in the question. Defaults to the name of its action.
+     */
+    describe?: (candidate: ActionReference) => string | string[];
+}
+
+/**
+ * Creates a transform which, given more than one result (e.g. from `top()`), asks the user to choose between them
+ * @param ask Creates the clarifying question from the candidates, e.g. an ActionReference to an action which asks it and pushes a dialog which returns `resolveDisambiguation`
+ * @param options (optional) describe
+ * @returns A new transform which returns the unwrapped result when there is only one, null when there are none, and otherwise the result of ask. Rejects with a PragueError if there is more than one result and they aren't all ActionReferences.
+ */
+
+export const disambiguate = <
+    O,
+> (
+    ask: (candidates: Candidate[]) => Returns<O>,
+    options: DisambiguateOptions = {},
+) => registerRule({
+    kind: 'disambiguate',
+    children: [ask],
+}, (results: any) => {
+    const list: any[] = Array.isArray(results)
+        ? results
+        : results == null
+            ? []
+            : [results];
+
+    if (list.length < 2)
+        return Promise.resolve(list.length ? Scored.unwrap(list[0]) : null);
+
+    const references = list.map(result => Scored.unwrap(result));
+
+    if (references.some(reference => !(reference instanceof ActionReference)))
+        return Promise.reject(new PragueError("disambiguate can only choose between ActionReferences")) as Promise<any>;
+
+    return toPromise(ask(references.map((reference: ActionReference) => {
+        const names = options.describe
+            ? options.describe(reference)
+            : reference.name;
+
+        return {
+            name: reference.name,
+            args: reference.args,
+            names: Array.isArray(names) ? names : [names],
+        };
+    })));
+});
+
+export interface ResolveDisambiguationOptions <
+    FALLBACK,
+> {
+    /**
+     * Creates what to return when the reply still refers to more than one candidate, e.g. an ActionReference to an action which asks again
+     */
+    fallback: (state: DisambiguationState) => FALLBACK;
+
+    /**
+     * How similar (from 0 to 1) a misspelled reply must be to a candidate's name. Defaults to .8.
+     */
+    threshold?: number;
+}
+
+const ordinals = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+/**
+ * Creates a dialog which handles the reply to the question asked by `disambiguate`
+ * @param dialogs The Dialogs to which it is added, which it pops once the reply is handled
+ * @param options fallback, and/or threshold
+ * @returns A new Dialog, taking the text of the reply, which returns an ActionReference to the candidate chosen by ordinal ("the second one", "2", "last"), name, or synonym, or the result of fallback if the reply refers to more than one. If it refers to none, the dialog is popped and it returns null, so that the root rules handle the reply. Must be run during `ConversationStates.turn`.
+ */
+
+export const resolveDisambiguation = <
+    FALLBACK,
+> (
+    dialogs: Dialogs<any>,
+    options: ResolveDisambiguationOptions<FALLBACK>,
+): Dialog<string, DisambiguationState> => registerRule({
+    kind: 'resolveDisambiguation',
+    children: [options.fallback],
+}, (text: string, state: Readonly<DisambiguationState>) => {
+    const context = getContext();
+    const candidates = state.candidates;
+    const words = ` ${normalizeText(text)} `;
+
+    const resolve = (candidate: Candidate | undefined) => {
+        updateState(dialogs.pop(), context);
+
+        return candidate
+            ? new ActionReference(candidate.name, ... candidate.args)
+            : null;
+    }
+
+    const ordinal = words.includes(' last ')
+        ? candidates.length - 1
+        : ordinals.findIndex(word => words.includes(` ${word} `));
+
+    if (ordinal >= 0 && ordinal < candidates.length)
+        return Promise.resolve(candidates[ordinal]).then(resolve);
+
+    const mentioned = candidates.filter(candidate => candidate.names.some(name => words.includes(` ${normalizeText(name)} `)));
+
+    if (mentioned.length > 1)
+        return Promise.resolve(options.fallback(state));
+
+    return recognizeChoice(
+        candidates.map((candidate, i) => ({ value: i, synonyms: candidate.names })),
+        { threshold: options.threshold },
+    )(text)
+        .then(i => resolve(i == null ? undefined : candidates[i]));
+});
@@ -0,0 +1,230 @@
+import { Returns, getContext, invoke, composite, registerRule } from './prague';
+
+/**
+ * The base class of every error thrown by *Prague*
+ */
+
+export class PragueError extends Error {
+    constructor (
+        message: string,
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The error with which a transform rejects when its evaluation has been aborted
+ */
+
+export class AbortError extends PragueError {
+    constructor () {
+        super("the evaluation was aborted");
+    }
+}
+
+/**
+ * The error with which a transform rejects when it misses its deadline, if so configured
+ */
+
+export class TimeoutError extends PragueError {
+    constructor () {
+        super("the transform missed its deadline");
+    }
+}
+
+/**
+ * Determines whether an error is one which *Prague* helpers may catch or retry. Cancellation and missed deadlines are not the transform's fault, so they are not.
+ * @param error The error
+ */
+
+export const isRecoverable = (
+    error: any,
+) => !(error instanceof AbortError || error instanceof TimeoutError);
+
+/**
+ * The error thrown when an ActionReference names an action which doesn't exist
+ */
+
+export class UnknownActionError extends PragueError {
+    /**
+     * Create an UnknownActionError
+     * @param action The name of the action
+     */
+
+    constructor (
+        public action: string,
+    ) {
+        super(`unknown action ${action}`);
+    }
+}
+
+/**
+ * The error thrown when an action's guard refuses to let it run
+ */
+
+export class ForbiddenActionError extends PragueError {
+    /**
+     * Create a ForbiddenActionError
+     * @param action The name of the action
+     */
+
+    constructor (
+        public action: string,
+    ) {
+        super(`${action} is not allowed`);
+    }
+}
+
+/**
+ * The error thrown when a serialized ActionReference is malformed, or its args don't match the schema of its action
+ */
+
+export class InvalidActionReferenceError extends PragueError {
+    /**
+     * Create an InvalidActionReferenceError
+     * @param message The message
+     * @param action (optional) the name of the action
+     */
+
+    constructor (
+        message: string,
+        public action?: string,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * The error thrown when a fetch returns a response which is not ok
+ */
+
+export class FetchError extends PragueError {
+    /**
+     * Create a FetchError
+     * @param message The message
+     * @param status The HTTP status of the response
+     * @param body The body of the response
+     */
+
+    constructor (
+        message: string,
+        public status: number,
+        public body: string,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * The error thrown when a score is not a number >= 0, or, where a score must be calibrated, not a number from 0 to 1
+ */
+
+export class InvalidScoreError extends PragueError {
+    /**
+     * Create an InvalidScoreError
+     * @param score The invalid score
+     * @param range (optional) the valid range, as text. Defaults to ">= 0".
+     */
+
+    constructor (
+        public score: any,
+        range = ">= 0",
+    ) {
+        super(`invalid score ${score}, must be a number ${range}`);
+    }
+}
+
+/**
+ * The error thrown when a Store is asked to write an item which has changed since it was read
+ */
+
+export class ConflictError extends PragueError {
+    /**
+     * Create a ConflictError
+     * @param key The key of the item
+     */
+
+    constructor (
+        public key: string,
+    ) {
+        super(`${key} was changed by someone else`);
+    }
+}
+
+/**
+ * Wraps an error as a result, so that it can be passed along and inspected without throwing. `tube` stops at an Err and returns it.
+ */
+
+export class Err <
+    ERROR = any,
+> {
+    /**
+     * Create an Err
+     * @param error The error
+     */
+
+    constructor (
+        public error: ERROR,
+    ) {
+    }
+
+    /**
+     * Unwraps an Err by throwing its error
+     * @param result The Err to unwrap (or any other result)
+     * @returns result if it's not an Err
+     */
+
+    static unwrap <
+        RESULT,
+    > (
+        result: Err | RESULT,
+    ) {
+        if (result instanceof Err)
+            throw result.error;
+
+        return result as RESULT;
+    }
+}
+
+/**
+ * Wraps a function in a new transform which returns an Err instead of throwing. AbortError and TimeoutError are still thrown.
+ * @param transform The function to run
+ * @returns A new transform which returns the result of the function, or an Err of the error it throws
+ */
+
+export const toErr = <
+    ARGS extends any[],
+    O,
+> (
+    transform: (...args: ARGS) => Returns<O>,
+) => registerRule({
+    kind: 'toErr',
+    children: [transform],
+}, composite((...args: ARGS) => invoke(getContext(), transform, args)
+    .catch(error => {
+        if (!isRecoverable(error))
+            throw error;
+
+        return new Err(error);
+    }) as Promise<O | Err>
+));
+
+/**
+ * A transform which runs a function on the error of an Err argument, and returns other arguments unchanged. Use it with `pipe`, since `tube` stops at an Err.
+ * @param handler The function to run on the error
+ * @returns A new transform which returns the result of handler for an Err, otherwise its argument
+ */
+
+export const mapErr = <
+    R,
+    H,
+> (
+    handler: (error: any) => Returns<H>,
+) => registerRule({
+    kind: 'mapErr',
+    children: [handler],
+}, composite((r: R) => r instanceof Err
+    ? invoke(getContext(), handler, [r.error])
+    : Promise.resolve(r)
+) as (r: R) => Promise<Exclude<R, Err> | H>);
@@ -1,4 +1,4 @@
-import { Returns, transformToNull, toPromise } from "./prague";
+import { Returns, transformToNull, getContext, tryInvoke, composite, registerRule, recordCoverage } from "./prague";
 
 type First<Prev, Last> = Prev extends null | undefined ? Last : Prev;
 
@@ -89,13 +89,22 @@ export function first (
     if (transforms.length === 0)
         return transformToNull;
 
-    return async (...args: any[]) => {
-        for (const transform of transforms) {
-            const o = await toPromise(transform(...args));
-            if (o != null)
+    const _first = registerRule({
+        kind: 'first',
+        children: transforms,
+    }, composite(async (...args: any[]) => {
+        const context = getContext();
+
+        for (const [index, transform] of transforms.entries()) {
+            const o = await tryInvoke(context, transform, args);
+            if (o != null) {
+                recordCoverage(_first, `won ${index}`);
                 return o;
+            }
         }
 
         return null;
-    };
+    }));
+
+    return _first;
 }
@@ -0,0 +1,120 @@
+import { ActionReference, SerializedActionReference, ActionReferences, ActionMiddleware, ActionBatch, getContext, registerRule, updateState, sequence, PragueError } from './prague';
+
+/**
+ * A record of an action which has been run, and how to undo it
+ */
+
+export interface JournalEntry {
+    action: SerializedActionReference;
+    compensation: SerializedActionReference;
+}
+
+/**
+ * The part of a conversation's state which holds its journal. Include it in the state you keep with ConversationStates.
+ */
+
+export interface JournalState {
+    journal?: JournalEntry[];
+}
+
+/**
+ * An ActionReference which undoes another, which is not itself recorded in the journal
+ */
+
+export class Compensation extends ActionReference {
+}
+
+export interface JournalOptions {
+    /**
+     * The maximum number of actions to remember in each conversation. Defaults to 10.
+     */
+    maxEntries?: number;
+}
+
+/**
+ * Records the actions run in each conversation which can be undone, so that the last few can be
+ */
+
+export class Journal {
+    private maxEntries: number;
+
+    /**
+     * Create a Journal
+     * @param actions The ActionReferences whose compensations undo its actions
+     * @param options (optional) maxEntries
+     */
+
+    constructor (
+        private actions: ActionReferences<any, any>,
+        options: JournalOptions = {},
+    ) {
+        this.maxEntries = options.maxEntries === undefined ? 10 : options.maxEntries;
+
+        if (typeof this.maxEntries !== 'number' || this.maxEntries < 1)
+            throw new PragueError("maxEntries must be a number >= 1");
+    }
+
+    /**
+     * Middleware which records each action which has a compensation, once it has succeeded. Add it with `ActionReferences.use`, and run actions during `ConversationStates.turn`.
+     */
+
+    record: ActionMiddleware<any[]> = (reference, next) => {
+        const context = getContext();
+
+        return next().then(result => {
+            if (!(reference instanceof Compensation)) {
+                const compensation = this.actions.compensationOf(reference);
+
+                if (compensation) {
+                    const entry: JournalEntry = {
+                        action: reference.toJSON(),
+                        compensation: compensation.toJSON(),
+                    };
+
+                    updateState((state: JournalState) => ({
+                        ... state,
+                        journal: [... state.journal || [], entry].slice(-this.maxEntries),
+                    }), context);
+                }
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * Creates a transform which undoes the last actions in the journal, and forgets them. It must run during `ConversationStates.turn`.
+     * @param count (optional) how many actions to undo. Defaults to 1.
+     * @returns A new transform, taking the conversation's state, which returns a `sequence` of Compensations, most recent first, or null if the journal is empty
+     */
+
+    undo (
+        count = 1,
+    ) {
+        if (typeof count !== 'number' || count < 1)
+            throw new PragueError("count must be a number >= 1");
+
+        return registerRule({
+            kind: 'undo',
+        }, (state: Readonly<JournalState>): Promise<ActionBatch | null> => {
+            const entries = (state.journal || []).slice(-count);
+
+            if (entries.length === 0)
+                return Promise.resolve(null);
+
+            try {
+                updateState((state: JournalState) => ({
+                    ... state,
+                    journal: (state.journal || []).slice(0, -entries.length),
+                }));
+            } catch (err) {
+                return Promise.reject(err);
+            }
+
+            return Promise.resolve(sequence(... entries
+                .reverse()
+                .map(entry => new Compensation(entry.compensation.name, ... entry.compensation.args))
+            ));
+        });
+    }
+}
@@ -1,4 +1,32 @@
-import { Returns, pipe, toPromise, promiseOfNull } from './prague';
+import { Returns, pipe, promiseOfNull, getContext, invoke, composite, registerRule, recordCoverage } from './prague';
+
+// `match` and `matchIf` record which branch was taken against themselves, rather than against the branch they compose
+
+const branchOf = <
+    O,
+    ONRESULT,
+    ONNULL,
+> (
+    getOwner: () => Function,
+    onResult: (result: NonNullable<O>) => Returns<ONRESULT>,
+    onNull?: () => Returns<ONNULL>,
+) => registerRule({
+    kind: 'branch',
+    children: [onResult, onNull],
+}, composite((o: O) => {
+    const context = getContext();
+    const taken = o == null ? 'onNull' : 'onResult';
+
+    if (context.trace)
+        context.trace.branch = taken;
+
+    recordCoverage(getOwner(), taken);
+
+    return (o == null
+        ? onNull ? invoke(context, onNull, []) : promiseOfNull
+        : invoke(context, onResult, [o as NonNullable<O>])
+    ) as Promise<ONRESULT | ONNULL>;
+}));
 
 /**
  * Composes two functions into a new transform which chooses which function to run based on the argument.
@@ -14,11 +42,11 @@ export const branch = <
 > (
     onResult: (result: NonNullable<O>) => Returns<ONRESULT>,
     onNull?: () => Returns<ONNULL>,
-) => (o: O) => (
-    o == null
-        ? onNull ? toPromise(onNull()) : promiseOfNull
-        : toPromise(onResult(o as NonNullable<O>))
-) as Promise<ONRESULT | ONNULL>;
+) => {
+    const _branch = branchOf((): Function => _branch, onResult, onNull);
+
+    return _branch;
+}
 
 /**
  * Composes three functions into a new transform. The first determines which of the other two to run.
@@ -37,10 +65,17 @@ export const match = <
     matcher: (...args: ARGS) => Returns<O>,
     onResult: (result: NonNullable<O>) => Returns<ONRESULT>,
     onNull?: () => Returns<ONNULL>,
-) => pipe(
-    matcher,
-    branch(onResult, onNull),
-);
+) => {
+    const _match = registerRule({
+        kind: 'match',
+        children: [matcher, onResult, onNull],
+    }, pipe(
+        matcher,
+        branchOf((): Function => _match, onResult, onNull),
+    ));
+
+    return _match;
+}
 
 /**
  * Wraps a predicate into a new transform which returns true or null.
@@ -52,10 +87,13 @@ export const toPredicate = <
     ARGS extends any[],
 > (
     predicate: (...args: ARGS) => any,
-) => pipe(
+) => registerRule({
+    kind: 'toPredicate',
+    children: [predicate],
+}, pipe(
     predicate,
     o => o ? true : null,
-);
+));
 
 /**
  * Wraps a predicate into a new transform which decides whether a pipe chain should continue.
@@ -81,7 +119,14 @@ export const matchIf = <
     predicate: (...args: ARGS) => any,
     onTruthy: () => Returns<ONTRUTHY>,
     onFalsey?: () => Returns<ONFALSEY>,
-) => pipe(
-    toPredicate(predicate),
-    branch(onTruthy, onFalsey),
-);
+) => {
+    const _matchIf = registerRule({
+        kind: 'matchIf',
+        children: [predicate, onTruthy, onFalsey],
+    }, pipe(
+        toPredicate(predicate),
+        branchOf((): Function => _matchIf, onTruthy, onFalsey),
+    ));
+
+    return _matchIf;
+}
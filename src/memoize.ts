@@ -0,0 +1,166 @@
+import { Returns, Context, getContext, invoke, composite, registerRule, PragueError } from './prague';
+
+export interface MemoizeOptions <
+    ARGS extends any[],
+> {
+    /**
+     * Creates the cache key for a set of arguments. Defaults to the argument itself when there is one which isn't a string, otherwise the arguments as JSON.
+     */
+    key?: (...args: ARGS) => any;
+
+    /**
+     * Milliseconds for which a result is kept. Defaults to forever.
+     */
+    ttl?: number;
+
+    /**
+     * The maximum number of results to keep, evicting the least recently used. Defaults to no limit.
+     */
+    maxSize?: number;
+
+    /**
+     * 'global' (the default) to keep results across calls, or 'evaluation' to keep them only within the current `cacheScope`
+     */
+    scope?: 'global' | 'evaluation';
+}
+
+// A single string is serialized too, so that it can't share a key with a list of arguments, e.g. '[1,2]' and (1, 2)
+
+const defaultKey = (
+    ...args: any[]
+) => args.length === 1 && typeof args[0] !== 'string'
+    ? args[0]
+    : JSON.stringify(args);
+
+interface Entry {
+    promise: Promise<any>;
+    expires: number;
+}
+
+// The remembered call runs without the caller's signal or deadline, so that an aborted or late caller doesn't leave an AbortError or a null in the cache. Instead, each caller applies its own to the remembered Promise.
+
+const forCaller = <
+    O,
+> (
+    context: Context,
+    promise: Promise<O>,
+) => invoke({
+    ... context,
+    trace: undefined,
+}, () => promise, []);
+
+/**
+ * Wraps a function in a new transform which remembers its results, so that calling it again with the same arguments doesn't call the function. Errors are not remembered. The function runs without the caller's deadline or signal, which only apply to the caller's wait for the result.
+ * @param transform The function to memoize
+ * @param options key, ttl, maxSize, and/or scope
+ * @returns A new transform
+ */
+
+export const memoize = <
+    ARGS extends any[],
+    O,
+> (
+    transform: (...args: ARGS) => Returns<O>,
+    options: MemoizeOptions<ARGS> = {},
+) => {
+    const key = options.key || defaultKey;
+    const ttl = options.ttl === undefined ? Infinity : options.ttl;
+    const maxSize = options.maxSize === undefined ? Infinity : options.maxSize;
+
+    if (typeof ttl !== 'number' || ttl <= 0)
+        throw new PragueError("ttl must be a number > 0");
+
+    if (typeof maxSize !== 'number' || maxSize < 1)
+        throw new PragueError("maxSize must be a number >= 1");
+
+    const globalCache = new Map<any, Entry>();
+
+    const getCache = () => {
+        if (options.scope !== 'evaluation')
+            return globalCache;
+
+        const cache = getContext().cache;
+
+        if (!cache)
+            return undefined;
+
+        let entries = cache.get(_memoize);
+
+        if (!entries) {
+            entries = new Map();
+            cache.set(_memoize, entries);
+        }
+
+        return entries as Map<any, Entry>;
+    }
+
+    const _memoize: (...args: ARGS) => Promise<O> = registerRule({
+        kind: 'memoize',
+        children: [transform],
+    }, composite((...args: ARGS) => {
+        const context = getContext();
+        const cache = getCache();
+
+        if (!cache)
+            return invoke(context, transform, args);
+
+        const k = key(...args);
+        const now = Date.now();
+        const entry = cache.get(k);
+
+        if (entry) {
+            // re-insert so that Map order is least recently used first
+            cache.delete(k);
+
+            if (entry.expires > now) {
+                cache.set(k, entry);
+                return forCaller(context, entry.promise as Promise<O>);
+            }
+        }
+
+        const promise = invoke({
+            ... context,
+            signal: undefined,
+            deadline: undefined,
+            throwOnTimeout: undefined,
+        }, transform, args);
+
+        cache.set(k, {
+            promise,
+            expires: now + ttl,
+        });
+
+        if (cache.size > maxSize)
+            cache.delete(cache.keys().next().value);
+
+        promise.catch(() => {
+            const current = cache.get(k);
+
+            if (current && current.promise === promise)
+                cache.delete(k);
+        });
+
+        return forCaller(context, promise);
+    }));
+
+    return _memoize;
+}
+
+/**
+ * Wraps a function in a new transform which gives each call of it a fresh cache for transforms memoized with `{ scope: 'evaluation' }`, dropped when the call finishes
+ * @param transform The function to run, e.g. your top-level bot logic
+ * @returns A new transform
+ */
+
+export const cacheScope = <
+    ARGS extends any[],
+    O,
+> (
+    transform: (...args: ARGS) => Returns<O>,
+) => registerRule({
+    kind: 'cacheScope',
+    children: [transform],
+}, composite((...args: ARGS) => invoke({
+    ... getContext(),
+    cache: new Map(),
+}, transform, args)));
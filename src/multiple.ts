@@ -1,4 +1,4 @@
-import { Returns, Flatten, toPromise } from "./prague";
+import { Returns, Flatten, Context, getContext, tryInvoke, composite, registerRule, Scored, Sourced, PragueError } from "./prague";
 const flat = require('array.prototype.flat');
 
 export type Flatten<T> = T extends Array<infer U> ? U : T;
@@ -100,10 +100,141 @@ export function toArray <
 export function toArray (
     ...transforms: ((...args: any[]) => any)[]
 ) {
-    return async (...args: any[]) => flat(
-        (await Promise.all(transforms.map(transform => toPromise(transform(...args)))))
-            .filter(o => o != null)
-    ) as any[];
+    return _toArray({}, transforms);
+}
+
+export interface ToArrayOptions {
+    /**
+     * The maximum number of functions to run at once. Defaults to all of them.
+     */
+    concurrency?: number;
+
+    /**
+     * true to wrap each result in a Sourced whose source is the index of the function which returned it, e.g. so that `combine(weightedScore(...))` can weight it
+     */
+    sourced?: boolean;
+}
+
+/**
+ * Validates the concurrency option shared by `toArrayWith` and `bestWith`
+ * @param options The options
+ * @returns The maximum number of functions to run at once
+ */
+
+export const concurrencyOf = (
+    options: ToArrayOptions,
+) => {
+    if (options.concurrency === undefined)
+        return Number.POSITIVE_INFINITY;
+
+    if (typeof options.concurrency !== 'number' || options.concurrency < 1)
+        throw new PragueError("concurrency must be a number >= 1");
+
+    return options.concurrency;
+}
+
+/**
+ * Calls multiple functions with the same arguments, starting each one as soon as there is room, and collects their results
+ * @param context The Context in which to call the functions
+ * @param transforms The functions to call
+ * @param args The arguments to the functions
+ * @param concurrency The maximum number of functions to run at once
+ * @param isDone (optional) called as each result arrives, with the results so far and the indices of the functions which haven't returned. Return true to stop starting and waiting for the rest.
+ * @returns A Promise of the results, indexed like transforms, with undefined for those which didn't return
+ */
+
+export const invokeAll = (
+    context: Context,
+    transforms: ((...args: any[]) => any)[],
+    args: any[],
+    concurrency = Number.POSITIVE_INFINITY,
+    isDone: (results: any[], pending: number[]) => boolean = () => false,
+) => new Promise<any[]>((resolve, reject) => {
+    const results: any[] = new Array(transforms.length);
+    const pending = new Set(transforms.keys());
+    let next = 0;
+    let settled = false;
+
+    const start = () => {
+        const index = next++;
+
+        tryInvoke(context, transforms[index], args).then(result => {
+            if (settled)
+                return;
+
+            results[index] = result;
+            pending.delete(index);
+
+            if (pending.size === 0 || isDone(results, [... pending])) {
+                settled = true;
+                resolve(results);
+            } else if (next < transforms.length) {
+                start();
+            }
+        }, error => {
+            if (!settled) {
+                settled = true;
+                reject(error);
+            }
+        });
+    }
+
+    if (transforms.length === 0)
+        resolve(results);
+
+    while (next < Math.min(concurrency, transforms.length))
+        start();
+});
+
+/**
+ * Flattens the results of multiple functions, leaving out nulls, and optionally wraps each one in a Sourced whose source is the index of the function which returned it
+ * @param results The results, indexed like the functions, e.g. from `invokeAll`
+ * @param sourced true to wrap each result in a Sourced, inside any Scored so that it keeps its score
+ * @returns The flattened results
+ */
+
+export const flattenResults = (
+    results: any[],
+    sourced = false,
+): any[] => sourced
+    ? flat(results.map((o, index) => o == null
+        ? []
+        : (Array.isArray(o) ? o : [o])
+            .filter(result => result != null)
+            .map(result => result instanceof Scored
+                ? Scored.from(new Sourced(result.result, index), result.score)
+                : new Sourced(result, index)
+            )
+    ))
+    : flat(results.filter(o => o != null));
+
+const _toArray = (
+    options: ToArrayOptions,
+    transforms: ((...args: any[]) => any)[],
+) => {
+    const concurrency = concurrencyOf(options);
+
+    return registerRule({
+        kind: 'toArray',
+        children: transforms,
+    }, composite(async (...args: any[]) => flattenResults(
+        await invokeAll(getContext(), transforms, args, concurrency),
+        options.sourced,
+    )));
+}
+
+/**
+ * Creates a version of `toArray` which runs its functions as configured
+ * @param options concurrency and/or sourced
+ * @returns A function which composes functions like `toArray`
+ */
+
+export const toArrayWith = (
+    options: ToArrayOptions,
+) => {
+    concurrencyOf(options);
+
+    return ((...transforms: ((...args: any[]) => any)[]) => _toArray(options, transforms)) as typeof toArray;
 }
 
 /**
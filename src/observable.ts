@@ -0,0 +1,247 @@
+import { Returns, getContext, invoke, registerRule, createAbortController, AbortError } from './prague';
+
+/**
+ * Receives the values of a Subscribable, e.g. an RxJS Observable
+ */
+
+export interface Observer <
+    T,
+> {
+    next: (value: T) => void;
+    error: (error: any) => void;
+    complete: () => void;
+}
+
+export interface Unsubscribable {
+    unsubscribe: () => void;
+}
+
+/**
+ * A source of values, e.g. an RxJS Observable. *Prague* doesn't depend on RxJS, but works with anything which has a compatible `subscribe` method.
+ */
+
+export interface Subscribable <
+    T,
+> {
+    subscribe: (observer: Observer<T>) => Unsubscribable;
+}
+
+/**
+ * The Subscribable returned by a *Prague* operator. Its `subscribe` accepts a partial Observer, and it can be passed to RxJS's `from`.
+ */
+
+export interface ObservableLike <
+    T,
+> {
+    subscribe: (observer: Partial<Observer<T>>) => Unsubscribable;
+}
+
+const observableKey = typeof Symbol === 'function' && (Symbol as any).observable || '@@observable';
+
+const observableLike = <
+    T,
+> (
+    subscribe: (observer: Observer<T>) => () => void,
+) => {
+    const observable: ObservableLike<T> = {
+        subscribe: observer => ({
+            unsubscribe: subscribe({
+                next: value => observer.next && observer.next(value),
+                error: error => observer.error && observer.error(error),
+                complete: () => observer.complete && observer.complete(),
+            }),
+        }),
+    };
+
+    (observable as any)[observableKey] = () => observable;
+
+    return observable;
+}
+
+/**
+ * How an operator handles a value which arrives while the transform is still running on an earlier one
+ * * 'queue' runs it once the earlier ones have finished
+ * * 'switch' aborts the earlier one, and runs it
+ * * 'drop' ignores it
+ * * 'merge' runs it alongside the earlier ones
+ */
+
+export type ConcurrencyPolicy = 'queue' | 'switch' | 'drop' | 'merge';
+
+/**
+ * Lifts a function into an operator, i.e. a function from a Subscribable of inputs to a Subscribable of outputs, which can be used with e.g. RxJS's `pipe`
+ * @param transform The function to run on each input. Each run gets its own AbortSignal, aborted by the 'switch' policy and on unsubscribe.
+ * @param policy (optional) how to handle inputs which arrive while the function is running. Defaults to 'queue'.
+ * @returns A new operator, which emits the non-null results of the function, and stops at the first error
+ */
+
+export const toOperator = <
+    I,
+    O,
+> (
+    transform: (input: I) => Returns<O>,
+    policy: ConcurrencyPolicy = 'queue',
+) => registerRule({
+    kind: `toOperator(${policy})`,
+    children: [transform],
+}, (source: Subscribable<I>) => observableLike<NonNullable<O>>(observer => {
+    const context = getContext();
+    const queue: I[] = [];
+    const running = new Set<AbortController>();
+    let sourceComplete = false;
+    let closed = false;
+    let subscription: Unsubscribable | undefined;
+
+    const close = () => {
+        closed = true;
+
+        for (const controller of running)
+            controller.abort();
+
+        if (subscription)
+            subscription.unsubscribe();
+    }
+
+    const fail = (error: any) => {
+        close();
+        observer.error(error);
+    }
+
+    const completeIfDone = () => {
+        if (sourceComplete && running.size === 0 && queue.length === 0) {
+            close();
+            observer.complete();
+        }
+    }
+
+    const run = (input: I) => {
+        if (policy === 'switch')
+            for (const controller of running)
+                controller.abort();
+
+        const controller = createAbortController();
+
+        running.add(controller);
+
+        const settled = () => {
+            running.delete(controller);
+
+            if (queue.length)
+                run(queue.shift() as I);
+            else
+                completeIfDone();
+        }
+
+        invoke({
+            ... context,
+            signal: controller.signal,
+        }, transform, [input]).then(output => {
+            if (closed)
+                return;
+
+            if (output != null)
+                observer.next(output as NonNullable<O>);
+
+            settled();
+        }, error => {
+            if (closed)
+                return;
+
+            if (controller.signal.aborted && error instanceof AbortError)
+                settled();
+            else
+                fail(error);
+        });
+    }
+
+    subscription = source.subscribe({
+        next: input => {
+            if (closed)
+                return;
+
+            if (running.size && policy === 'drop')
+                return;
+
+            if (running.size && policy === 'queue')
+                queue.push(input);
+            else
+                run(input);
+        },
+        error: error => {
+            if (!closed)
+                fail(error);
+        },
+        complete: () => {
+            sourceComplete = true;
+
+            if (!closed)
+                completeIfDone();
+        },
+    });
+
+    // the source may have finished, or the transform failed, during subscribe
+    if (closed)
+        subscription.unsubscribe();
+
+    return close;
+}));
+
+export interface RunOnOptions {
+    /**
+     * How to handle inputs which arrive while the transform is still running. Defaults to 'queue'.
+     */
+    policy?: ConcurrencyPolicy;
+
+    /**
+     * When aborted, stops listening to the source and aborts the transform
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Drives a transform, e.g. your top-level bot logic, from a source of inputs
+ * @param source The inputs, e.g. an RxJS Observable of requests
+ * @param transform The function to run on each input
+ * @param options (optional) policy and/or signal
+ * @returns A Promise which resolves when the source completes and the transform has finished with every input, and rejects with the first error of either, or an AbortError if the signal is aborted
+ */
+
+export const runOn = <
+    I,
+> (
+    source: Subscribable<I>,
+    transform: (input: I) => any,
+    options: RunOnOptions = {},
+) => new Promise<void>((resolve, reject) => {
+    const signal = options.signal;
+
+    if (signal && signal.aborted)
+        return reject(new AbortError());
+
+    let subscription: Unsubscribable | undefined;
+
+    const onAbort = () => {
+        if (subscription)
+            subscription.unsubscribe();
+
+        reject(new AbortError());
+    }
+
+    if (signal)
+        signal.addEventListener('abort', onAbort);
+
+    subscription = toOperator(transform, options.policy)(source).subscribe({
+        error: error => {
+            if (signal)
+                signal.removeEventListener('abort', onAbort);
+
+            reject(error);
+        },
+        complete: () => {
+            if (signal)
+                signal.removeEventListener('abort', onAbort);
+
+            resolve();
+        },
+    });
+});
@@ -1,30 +1,33 @@
-import { Returns, toPromise, transformToNull } from "./prague";
+import { Returns, toPromise, transformToNull, getContext, invoke, composite, registerRule, Err } from "./prague";
 
 function _pipe (
     shortCircuit: boolean,
     ...transforms: ((...args: any[]) => any)[]
 ) {
-    if (transforms.length === 0)
-        return transformToNull;
+    return composite(async (...args: any[]) => {
+        const context = getContext();
 
-    return async (...args: any[]) => {
         for (const transform of transforms) {
-            args = [await toPromise(transform(...args))];
-            if (shortCircuit && args[0] == null)
-                return null;
+            args = [await invoke(context, transform, args)];
+            if (shortCircuit && (args[0] == null || args[0] instanceof Err)) {
+                if (context.trace)
+                    context.trace.shortCircuited = true;
+
+                return args[0] == null ? null : args[0];
+            }
         }
 
         return args[0];
-    }
+    });
 }
 
 type Tube<Prev, Last> = Prev extends null | undefined ? Prev : Last;
 
 /**
- * Compose multiple functions into a new transform by chaining the result of one as the argument to the next, stopping if one returns null
+ * Compose multiple functions into a new transform by chaining the result of one as the argument to the next, stopping if one returns null or an Err
  * @param ARGS The arguments to the first function, and to the resultant transform
  * @param transforms The functions to chain together
- * @returns A new transform which returns null if any function returns null, otherwise the result of the last function
+ * @returns A new transform which returns null if any function returns null, the Err if any function returns an Err, otherwise the result of the last function
  */
 
 export function tube(
@@ -104,7 +107,12 @@ export function tube <
 export function tube (
     ...transforms: ((...args: any[]) => any)[]
 ) {
-    return _pipe(true, ...transforms);
+    return transforms.length === 0
+        ? transformToNull
+        : registerRule({
+            kind: 'tube',
+            children: transforms,
+        }, _pipe(true, ...transforms));
 }
 
 /**
@@ -118,25 +126,34 @@ export const tap = <
 > (
     fn: (result: R) => any,
 ): (r: R) => Promise<R> =>
-    (result: R) => toPromise(fn(result))
-        .then(() => result);
+    registerRule({
+        kind: 'tap',
+        children: [fn],
+    }, (result: R) => toPromise(fn(result))
+        .then(() => result));
 
 /**
  * A transform which runs console.log on it's argument and then returns it
  * @returns A transform which returns its argument
  */
 
-export const log = tap(console.log);
+export const log = registerRule({
+    kind: 'log',
+    children: [],
+}, tap(console.log));
 
 /**
  * A transform which runs its argument if it's a function
  * @returns A transform which returns its argument
  */
 
-export const doAction = tap(o => {
+export const doAction = registerRule({
+    kind: 'doAction',
+    children: [],
+}, tap(o => {
     if (typeof o === 'function')
         return o();
-});
+}));
 
 /**
  * Wraps a function in a new transform which runs the function and runs its result if it's a function
@@ -150,10 +167,13 @@ export function run <
 > (
     transform: (...args: ARGS) => O
 ) {
-    return tube(
+    return registerRule({
+        kind: 'run',
+        children: [transform],
+    }, tube(
         transform,
         doAction,
-    );
+    ));
 }
 
 /**
@@ -239,5 +259,10 @@ export function pipe <
 export function pipe (
     ...transforms: ((...args: any[]) => any)[]
 ) {
-    return _pipe(false, ...transforms);
+    return transforms.length === 0
+        ? transformToNull
+        : registerRule({
+            kind: 'pipe',
+            children: transforms,
+        }, _pipe(false, ...transforms));
 }
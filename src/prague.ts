@@ -1,9 +1,27 @@
 export * from './core';
+export * from './errors';
+export * from './context';
+export * from './timeout';
+export * from './trace';
+export * from './rules';
+export * from './coverage';
+export * from './recover';
+export * from './memoize';
 export * from './first';
 export * from './pipe';
 export * from './multiple';
 export * from './scored';
+export * from './calibration';
+export * from './stream';
 export * from './sourced';
 export * from './matching';
 export * from './actionReference';
+export * from './storage';
+export * from './state';
+export * from './journal';
+export * from './scheduler';
+export * from './dialogs';
+export * from './prompts';
+export * from './disambiguate';
+export * from './observable';
 export * from './util';
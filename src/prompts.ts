@@ -0,0 +1,357 @@
+import { Returns, Reducer, toPromise, registerRule, PragueError } from './prague';
+
+/**
+ * Normalizes text for recognition: lower case, without punctuation, and with single spaces between words
+ * @param text The text
+ * @returns The normalized text
+ */
+
+export const normalizeText = (
+    text: string,
+) => text
+    .toLowerCase()
+    .replace(/[^\w\s'-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export interface TextOptions {
+    /**
+     * (optional) a pattern the text must match
+     */
+    pattern?: RegExp;
+}
+
+/**
+ * Creates a transform which recognizes any text
+ * @param options (optional) pattern
+ * @returns a new transform which returns the trimmed text, or null if it's empty or doesn't match the pattern
+ */
+
+export const recognizeText = (
+    options: TextOptions = {},
+) => registerRule({
+    kind: 'recognizeText',
+}, (text: string) => {
+    const trimmed = text.trim();
+
+    return Promise.resolve(trimmed && (!options.pattern || options.pattern.test(trimmed))
+        ? trimmed
+        : null
+    );
+});
+
+export interface NumberOptions {
+    min?: number;
+    max?: number;
+
+    /**
+     * true to recognize only whole numbers
+     */
+    integer?: boolean;
+}
+
+const numberWords = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+/**
+ * Creates a transform which recognizes a number, written in digits or (up to twelve) in words
+ * @param options (optional) min, max, and/or integer
+ * @returns a new transform which returns the first number in the text, or null if there is none or it's out of range
+ */
+
+export const recognizeNumber = (
+    options: NumberOptions = {},
+) => registerRule({
+    kind: 'recognizeNumber',
+}, (text: string) => {
+    const digits = /-?\d+(\.\d+)?/.exec(text.replace(/(\d),(?=\d{3})/g, '$1'));
+
+    const n = digits
+        ? Number(digits[0])
+        : normalizeText(text).split(' ').map(word => numberWords.indexOf(word)).find(n => n >= 0);
+
+    return Promise.resolve(n === undefined
+        || (options.integer && !Number.isInteger(n))
+        || (options.min !== undefined && n < options.min)
+        || (options.max !== undefined && n > options.max)
+        ? null
+        : n
+    );
+});
+
+export interface ConfirmOptions {
+    /**
+     * (optional) more words meaning yes
+     */
+    yes?: string[];
+
+    /**
+     * (optional) more words meaning no
+     */
+    no?: string[];
+}
+
+const yes = ['yes', 'y', 'yeah', 'yep', 'yup', 'sure', 'ok', 'okay', 'true', 'correct', 'right', 'affirmative'];
+const no = ['no', 'n', 'nope', 'nah', 'false', 'wrong', 'negative'];
+
+/**
+ * Creates a transform which recognizes yes or no
+ * @param options (optional) more words meaning yes and/or no
+ * @returns a new transform which returns true for yes, false for no, or null if the text starts with neither
+ */
+
+export const recognizeConfirm = (
+    options: ConfirmOptions = {},
+) => {
+    const yesWords = [... yes, ... (options.yes || []).map(normalizeText)];
+    const noWords = [... no, ... (options.no || []).map(normalizeText)];
+
+    return registerRule({
+        kind: 'recognizeConfirm',
+    }, (text: string) => {
+        const normalized = normalizeText(text);
+        const startsWith = (word: string) => normalized === word || normalized.startsWith(word + ' ');
+
+        return Promise.resolve(
+            yesWords.some(startsWith) ? true :
+            noWords.some(startsWith) ? false :
+            null
+        );
+    });
+}
+
+/**
+ * A choice, with other ways of saying it
+ */
+
+export interface Choice <
+    VALUE,
+> {
+    value: VALUE;
+    synonyms?: string[];
+}
+
+export interface ChoiceOptions {
+    /**
+     * How similar (from 0 to 1) a misspelled reply must be to a choice to recognize it. Defaults to .8.
+     */
+    threshold?: number;
+}
+
+const distance = (
+    a: string,
+    b: string,
+) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+
+        for (let j = 1; j <= b.length; j++)
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+const similarity = (
+    a: string,
+    b: string,
+) => 1 - distance(a, b) / Math.max(a.length, b.length, 1);
+
+/**
+ * Creates a transform which recognizes one of a list of choices: by its number in the list, by name or synonym, or by a close misspelling of one
+ * @param choices The choices, each a string or a Choice
+ * @param options (optional) threshold
+ * @returns a new transform which returns the value of the recognized choice, or null
+ */
+
+export const recognizeChoice = <
+    VALUE = string,
+> (
+    choices: (string | Choice<VALUE>)[],
+    options: ChoiceOptions = {},
+) => {
+    const threshold = options.threshold === undefined ? .8 : options.threshold;
+
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 1)
+        throw new PragueError("threshold must be a number >= 0 and <= 1");
+
+    const names = choices.map(choice => typeof choice === 'string'
+        ? { value: choice as any as VALUE, names: [normalizeText(choice)] }
+        : { value: choice.value, names: [String(choice.value), ... choice.synonyms || []].map(normalizeText) }
+    );
+
+    return registerRule({
+        kind: 'recognizeChoice',
+    }, (text: string) => {
+        const normalized = normalizeText(text);
+        const index = Number(normalized);
+
+        if (Number.isInteger(index) && index >= 1 && index <= names.length)
+            return Promise.resolve(names[index - 1].value);
+
+        const named = names.find(choice => choice.names.includes(normalized))
+            || names.find(choice => choice.names.some(name => ` ${normalized} `.includes(` ${name} `)));
+
+        if (named)
+            return Promise.resolve(named.value);
+
+        let best: VALUE | null = null;
+        let bestSimilarity = threshold;
+
+        for (const choice of names)
+            for (const name of choice.names) {
+                const s = similarity(normalized, name);
+
+                if (s >= bestSimilarity) {
+                    best = choice.value;
+                    bestSimilarity = s;
+                }
+            }
+
+        return Promise.resolve(best);
+    });
+}
+
+export interface DateOptions {
+    /**
+     * (optional) returns the current time, against which relative dates are recognized. Defaults to the system clock.
+     */
+    now?: () => Date;
+}
+
+const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const units: Record<string, number> = {
+    day: 1,
+    days: 1,
+    week: 7,
+    weeks: 7,
+};
+
+/**
+ * Creates a transform which recognizes simple dates: today, tomorrow, yesterday, weekdays ("friday", "next friday"), "in 3 days", "2 weeks ago", and yyyy-mm-dd
+ * @param options (optional) now
+ * @returns a new transform which returns the recognized date, at midnight local time, or null
+ */
+
+export const recognizeDate = (
+    options: DateOptions = {},
+) => registerRule({
+    kind: 'recognizeDate',
+}, (text: string) => {
+    const now = options.now ? options.now() : new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const normalized = normalizeText(text);
+
+    const daysFromToday = (days: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+
+    let match: RegExpExecArray | null;
+    let date: Date | null = null;
+
+    if (/\btoday\b/.test(normalized))
+        date = today;
+    else if (/\btomorrow\b/.test(normalized))
+        date = daysFromToday(1);
+    else if (/\byesterday\b/.test(normalized))
+        date = daysFromToday(-1);
+    else if (match = /\bin (\d+) (days?|weeks?)\b/.exec(normalized))
+        date = daysFromToday(Number(match[1]) * units[match[2]]);
+    else if (match = /\b(\d+) (days?|weeks?) ago\b/.exec(normalized))
+        date = daysFromToday(-Number(match[1]) * units[match[2]]);
+    else if (match = /\b(\d{4})-(\d{2})-(\d{2})\b/.exec(text)) {
+        const [year, month, day] = match.slice(1).map(Number);
+        const d = new Date(year, month - 1, day);
+
+        if (d.getMonth() === month - 1 && d.getDate() === day)
+            date = d;
+    } else {
+        const weekday = weekdays.findIndex(day => new RegExp(`\\b${day}\\b`).test(normalized));
+
+        if (weekday >= 0)
+            date = daysFromToday((weekday - today.getDay() + 7) % 7 || 7);
+    }
+
+    return Promise.resolve(date);
+});
+
+/**
+ * The state of a prompt, e.g. the state of the dialog which asks it
+ */
+
+export interface PromptState {
+    /**
+     * How many times the question has been asked again
+     */
+    attempts: number;
+}
+
+/**
+ * A Reducer of PromptState which counts another attempt, e.g. to return from a re-prompt action with `Dialogs.update`
+ */
+
+export const nextAttempt: Reducer<PromptState> = state => ({
+    ... state,
+    attempts: state.attempts + 1,
+});
+
+export interface PromptOptions <
+    REPROMPT,
+    TOOMANY,
+> {
+    /**
+     * Creates what to return when the reply isn't recognized, e.g. an ActionReference to an action which asks again
+     */
+    reprompt: (attempt: number) => REPROMPT;
+
+    /**
+     * The maximum number of times to ask again. Defaults to 2.
+     */
+    maxAttempts?: number;
+
+    /**
+     * (optional) creates what to return when the reply isn't recognized after the last attempt, e.g. an ActionReference to an action which gives up
+     */
+    tooManyAttempts?: () => TOOMANY;
+}
+
+/**
+ * Creates a prompt, a transform which recognizes the reply to a question
+ * @param recognize The function which recognizes the reply, e.g. `recognizeNumber()`
+ * @param options reprompt, maxAttempts, and/or tooManyAttempts
+ * @returns a new transform, taking the text of the reply and the PromptState, which returns the recognized result, or the result of reprompt, or of tooManyAttempts (or null) if there have been maxAttempts already
+ */
+
+export const prompt = <
+    T,
+    REPROMPT,
+    TOOMANY = null,
+> (
+    recognize: (text: string) => Returns<T>,
+    options: PromptOptions<REPROMPT, TOOMANY>,
+) => {
+    const maxAttempts = options.maxAttempts === undefined ? 2 : options.maxAttempts;
+
+    if (typeof maxAttempts !== 'number' || maxAttempts < 0)
+        throw new PragueError("maxAttempts must be a number >= 0");
+
+    return registerRule({
+        kind: 'prompt',
+        children: [recognize, options.reprompt, options.tooManyAttempts],
+    }, (text: string, state: PromptState = { attempts: 0 }) => toPromise(recognize(text))
+        .then(result => result != null
+            ? result
+            : state.attempts < maxAttempts
+                ? options.reprompt(state.attempts + 1)
+                : options.tooManyAttempts
+                    ? options.tooManyAttempts()
+                    : null
+        ) as Promise<NonNullable<T> | REPROMPT | TOOMANY>
+    );
+}
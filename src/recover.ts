@@ -0,0 +1,135 @@
+import { Returns, getContext, invoke, composite, registerRule, isRecoverable, PragueError } from './prague';
+
+/**
+ * Wraps a function in a new transform which handles any error it throws
+ * @param transform The function to run
+ * @param handler The function to run with the error if transform throws
+ * @returns A new transform which returns the result of transform, or of handler if transform throws
+ */
+
+export const catchError = <
+    ARGS extends any[],
+    O,
+    H,
+> (
+    transform: (...args: ARGS) => Returns<O>,
+    handler: (error: any) => Returns<H>,
+) => registerRule({
+    kind: 'catchError',
+    children: [transform, handler],
+}, composite((...args: ARGS) => {
+    const context = getContext();
+
+    return invoke(context, transform, args)
+        .catch(error => {
+            if (!isRecoverable(error))
+                throw error;
+
+            return invoke(context, handler, [error]);
+        }) as Promise<O | H>;
+}));
+
+/**
+ * Composes two functions into a new transform which runs the second if the first throws
+ * @param primary The function to try first
+ * @param fallback The function to run, with the same arguments, if primary throws
+ * @returns A new transform which returns the result of primary, or of fallback if primary throws
+ */
+
+export const orElse = <
+    ARGS extends any[],
+    R0,
+    R1,
+> (
+    primary: (...args: ARGS) => Returns<R0>,
+    fallback: (...args: ARGS) => Returns<R1>,
+) => registerRule({
+    kind: 'orElse',
+    children: [primary, fallback],
+}, composite((...args: ARGS) => {
+    const context = getContext();
+
+    return invoke(context, primary, args)
+        .catch(error => {
+            if (!isRecoverable(error))
+                throw error;
+
+            return invoke(context, fallback, args);
+        }) as Promise<R0 | R1>;
+}));
+
+export interface RetryOptions {
+    /**
+     * The maximum number of times to run the transform, including the first. Defaults to 3.
+     */
+    attempts?: number;
+
+    /**
+     * Milliseconds to wait before each retry, or a function of the number of attempts so far which returns them. Defaults to 0.
+     */
+    backoff?: number | ((attempt: number) => number);
+}
+
+/**
+ * Wraps a function in a new transform which runs it again when it throws
+ * @param transform The function to run
+ * @param options attempts and/or backoff
+ * @returns A new transform which returns the result of the first successful attempt, or throws the error of the last one
+ */
+
+export const retry = <
+    ARGS extends any[],
+    O,
+> (
+    transform: (...args: ARGS) => Returns<O>,
+    options: RetryOptions = {},
+) => {
+    const attempts = options.attempts === undefined ? 3 : options.attempts;
+
+    if (typeof attempts !== 'number' || attempts < 1)
+        throw new PragueError("attempts must be a number >= 1");
+
+    const backoff = options.backoff || 0;
+
+    return registerRule({
+        kind: 'retry',
+        children: [transform],
+    }, composite(async (...args: ARGS) => {
+        const context = getContext();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await invoke(context, transform, args);
+            } catch (error) {
+                if (attempt >= attempts || !isRecoverable(error))
+                    throw error;
+            }
+
+            const ms = typeof backoff === 'function' ? backoff(attempt) : backoff;
+
+            if (ms > 0)
+                await new Promise(resolve => setTimeout(resolve, ms));
+        }
+    }));
+}
+
+/**
+ * Wraps a function in a new transform within which `first`, `toArray`, and `best` treat a transform which throws as having returned null
+ * @param transform The function to run
+ * @param onError (optional) the function to pass each error to, e.g. to collect them
+ * @returns A new transform
+ */
+
+export const nullOnError = <
+    ARGS extends any[],
+    O,
+> (
+    transform: (...args: ARGS) => Returns<O>,
+    onError: (error: any) => void = () => {},
+) => registerRule({
+    kind: 'nullOnError',
+    children: [transform],
+}, composite((...args: ARGS) => invoke({
+    ... getContext(),
+    onError,
+}, transform, args)));
@@ -0,0 +1,182 @@
+import { Returns, toPromise, isComposite, composite } from './prague';
+
+/**
+ * What is known about how a transform was created
+ */
+
+export interface RuleInfo {
+    /**
+     * The name given to the transform with `named`
+     */
+    name?: string;
+
+    /**
+     * The helper which created the transform, e.g. 'first'
+     */
+    kind?: string;
+
+    /**
+     * The functions the transform composes
+     */
+    children?: (Function | undefined)[];
+
+    /**
+     * The names of the actions whose ActionReferences the transform itself can return
+     */
+    actions?: string[];
+
+    /**
+     * The transform this one wraps without changing its behavior, e.g. with `named`
+     */
+    wraps?: Function;
+
+    /**
+     * The highest score the transform can return, declared with `withMaxScore`
+     */
+    maxScore?: number;
+}
+
+const registry = new WeakMap<Function, RuleInfo>();
+
+/**
+ * Records how a transform was created, so that it can be listed by `ruleTree`. *Prague* helpers do this for every transform they create.
+ * @param info What is known about the transform. Merged with anything already recorded.
+ * @param transform The transform
+ * @returns The transform
+ */
+
+export const registerRule = <
+    T extends Function,
+> (
+    info: RuleInfo,
+    transform: T,
+) => {
+    registry.set(transform, {
+        ... registry.get(transform),
+        ... info,
+    });
+
+    return transform;
+}
+
+/**
+ * Retrieves what is known about how a transform was created
+ * @param transform The transform
+ * @returns The recorded RuleInfo, or an empty one
+ */
+
+export const getRuleInfo = (
+    transform: Function,
+): RuleInfo => registry.get(transform) || {};
+
+/**
+ * Describes a function by its name, the helper which created it, or its JavaScript name, in that order of preference
+ * @param transform The function
+ */
+
+export const nameOf = (
+    transform: Function,
+): string => {
+    const info = getRuleInfo(transform);
+
+    return info.name || info.kind || (info.wraps ? nameOf(info.wraps) : transform.name) || 'anonymous';
+}
+
+/**
+ * Wraps a function in a new transform with a name, which is kept by `Tracer` and `ruleTree`
+ * @param name The name
+ * @param transform The function to name
+ * @param uses (optional) the transforms called by the function, if it does not compose them with *Prague* helpers
+ * @returns A new transform
+ */
+
+export const named = <
+    ARGS extends any[],
+    O,
+> (
+    name: string,
+    transform: (...args: ARGS) => Returns<O>,
+    uses?: Function[],
+) => {
+    const _named = (...args: ARGS) => toPromise(transform(...args));
+
+    registerRule({
+        ... getRuleInfo(transform),
+        name,
+        kind: getRuleInfo(transform).kind || transform.name || undefined,
+        children: uses || getRuleInfo(transform).children || [],
+        wraps: transform,
+    }, _named);
+
+    return isComposite(transform)
+        ? composite(_named)
+        : _named;
+}
+
+/**
+ * A node in the tree returned by `ruleTree`
+ */
+
+export interface RuleNode {
+    name: string;
+    kind?: string;
+
+    /**
+     * The names of the actions whose ActionReferences this rule, or any rule within it, can return
+     */
+    actions: string[];
+
+    children: RuleNode[];
+}
+
+/**
+ * Lists the rules composed into a transform, e.g. for documentation or coverage reports
+ * @param transform The transform
+ * @returns The tree of rules, from the transform down
+ */
+
+export const ruleTree = (
+    transform: Function,
+) => {
+    const visit = (
+        transform: Function,
+        path: Function[],
+    ): RuleNode => {
+        const info = getRuleInfo(transform);
+
+        const children = path.includes(transform)
+            ? []
+            : (info.children || [])
+                .filter((child): child is Function => typeof child === 'function')
+                .map(child => visit(child, [... path, transform]));
+
+        const actions = new Set(info.actions);
+
+        for (const child of children)
+            for (const action of child.actions)
+                actions.add(action);
+
+        return {
+            name: nameOf(transform),
+            kind: info.name ? info.kind : undefined,
+            actions: [... actions],
+            children,
+        };
+    }
+
+    return visit(transform, []);
+}
+
+/**
+ * Pretty-prints a rule tree, one rule per line, indented by depth
+ * @param node The tree returned by `ruleTree`
+ * @param indent The indentation of the top of the tree
+ */
+
+export const formatRuleTree = (
+    node: RuleNode,
+    indent = '',
+): string => [
+    `${indent}${node.name}${node.kind ? ` (${node.kind})` : ''}${node.actions.length ? ` -> ${node.actions.join(', ')}` : ''}`,
+    ... node.children.map(child => formatRuleTree(child, indent + '  ')),
+].join('\n');
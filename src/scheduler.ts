@@ -0,0 +1,441 @@
+import { ActionReference, SerializedActionReference, ActionReferences, ConversationStates, Store, MemoryStore, registerRule, PragueError } from './prague';
+
+/**
+ * The source of time for a Scheduler
+ */
+
+export interface Clock {
+    /**
+     * @returns The current time, in milliseconds
+     */
+    now (): number;
+
+    /**
+     * Calls a function after a delay
+     * @param callback The function
+     * @param ms The delay, in milliseconds
+     * @returns A handle with which to cancel the call
+     */
+    setTimeout (callback: () => any, ms: number): any;
+
+    /**
+     * Cancels a call
+     * @param handle The handle returned by setTimeout
+     */
+    clearTimeout (handle: any): void;
+}
+
+/**
+ * The Clock of the system, i.e. `Date.now`, `setTimeout`, and `clearTimeout`
+ */
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: handle => clearTimeout(handle),
+}
+
+interface Timer {
+    at: number;
+    callback: () => any;
+}
+
+/**
+ * A Clock whose time only passes when you advance it, e.g. for testing
+ */
+
+export class ManualClock implements Clock {
+    private timers = new Set<Timer>();
+
+    /**
+     * Create a ManualClock
+     * @param time (optional) the current time, in milliseconds. Defaults to 0.
+     */
+
+    constructor (
+        private time = 0,
+    ) {
+    }
+
+    now () {
+        return this.time;
+    }
+
+    setTimeout (
+        callback: () => any,
+        ms: number,
+    ) {
+        const timer = { at: this.time + Math.max(0, ms), callback };
+
+        this.timers.add(timer);
+
+        return timer;
+    }
+
+    clearTimeout (
+        handle: any,
+    ) {
+        this.timers.delete(handle);
+    }
+
+    /**
+     * Moves time forward, calling each function which falls due in order, including those whose calls are set up along the way
+     * @param ms How far to move, in milliseconds
+     * @returns A Promise which resolves once every function called has finished, including any Promise it returns
+     */
+
+    async advance (
+        ms: number,
+    ) {
+        const end = this.time + ms;
+
+        while (true) {
+            const due = [... this.timers]
+                .filter(timer => timer.at <= end)
+                .sort((a, b) => a.at - b.at)[0];
+
+            if (!due)
+                break;
+
+            this.timers.delete(due);
+            this.time = due.at;
+            await due.callback();
+        }
+
+        this.time = end;
+    }
+}
+
+export interface ScheduleOptions {
+    /**
+     * (optional) the id of the job, with which to cancel it. Scheduling a job with the id of another replaces it. Defaults to a new id.
+     */
+    id?: string;
+
+    /**
+     * (optional) run the action again every this many milliseconds after the first time
+     */
+    every?: number;
+}
+
+/**
+ * An ActionReference to run later, once or repeatedly
+ */
+
+export class Scheduled {
+
+    /**
+     * Create a Scheduled
+     * @param action The ActionReference to run, whose args must be JSON-serializable
+     * @param delay How long to wait before running it, in milliseconds
+     * @param options (optional) id and/or every
+     */
+
+    constructor (
+        public action: ActionReference,
+        public delay: number,
+        public options: ScheduleOptions = {},
+    ) {
+        if (typeof delay !== 'number' || !(delay >= 0))
+            throw new PragueError("delay must be a number >= 0");
+
+        if (options.every !== undefined && (typeof options.every !== 'number' || !(options.every > 0)))
+            throw new PragueError("every must be a number > 0");
+    }
+}
+
+/**
+ * Creates a Scheduled which runs an action once, after a delay
+ * @param delay How long to wait, in milliseconds
+ * @param action The ActionReference, e.g. from a `reference` stub
+ * @param id (optional) the id of the job
+ * @returns A new Scheduled
+ */
+
+export const after = (
+    delay: number,
+    action: ActionReference,
+    id?: string,
+) => new Scheduled(action, delay, { id });
+
+/**
+ * Creates a Scheduled which runs an action repeatedly, starting after one interval
+ * @param interval How often to run it, in milliseconds
+ * @param action The ActionReference, e.g. from a `reference` stub
+ * @param id (optional) the id of the job
+ * @returns A new Scheduled
+ */
+
+export const every = (
+    interval: number,
+    action: ActionReference,
+    id?: string,
+) => new Scheduled(action, interval, { id, every: interval });
+
+/**
+ * A scheduled action, as kept in the Scheduler's Store
+ */
+
+export interface ScheduledJob {
+    id: string;
+    action: SerializedActionReference;
+
+    /**
+     * When it next runs, in milliseconds
+     */
+    at: number;
+
+    every?: number;
+
+    /**
+     * The id of the conversation which scheduled it, if any
+     */
+    conversationId?: string;
+}
+
+export interface SchedulerOptions {
+    /**
+     * (optional) the source of time. Defaults to systemClock.
+     */
+    clock?: Clock;
+
+    /**
+     * (optional) where to keep the jobs, so that they survive restarts. Defaults to a MemoryStore.
+     */
+    store?: Store<ScheduledJob[]>;
+
+    /**
+     * (optional) the key under which to keep the jobs in the store. Defaults to 'scheduledJobs'.
+     */
+    key?: string;
+
+    /**
+     * (optional) the function to pass each error thrown by a scheduled action
+     */
+    onError?: (error: any, job: ScheduledJob) => void;
+
+    /**
+     * (optional) the states of the conversations. If present, a job with a conversationId runs within a turn of that conversation, so that the Reducers its action returns or queues with `updateState` apply to its state. Otherwise, they are discarded, and `updateState` throws.
+     */
+    states?: ConversationStates<any>;
+}
+
+// the longest delay setTimeout supports, about 24.8 days
+
+const maxDelay = 2 ** 31 - 1;
+
+/**
+ * Runs ActionReferences later, once or repeatedly, through the same ActionReferences (and middleware) as the actions run during a turn
+ */
+
+export class Scheduler <
+    CONTEXTARGS extends any[],
+> {
+    private clock: Clock;
+    private store: Store<ScheduledJob[]>;
+    private key: string;
+    private onError: (error: any, job: ScheduledJob) => void;
+    private states?: ConversationStates<any>;
+    private timers = new Map<string, any>();
+
+    // updates happen one at a time, so that none is lost
+    private queue: Promise<any> = Promise.resolve();
+
+    /**
+     * Create a Scheduler
+     * @param actions The ActionReferences which run the scheduled actions
+     * @param getContextArgs Creates the arguments to pass to `actions.doAction` for a job, e.g. a way to send messages to its conversation
+     * @param options (optional) clock, store, key, onError, and/or states
+     */
+
+    constructor (
+        private actions: ActionReferences<CONTEXTARGS, any>,
+        private getContextArgs: (job: ScheduledJob) => CONTEXTARGS,
+        options: SchedulerOptions = {},
+    ) {
+        this.clock = options.clock || systemClock;
+        this.store = options.store || new MemoryStore<ScheduledJob[]>();
+        this.key = options.key || 'scheduledJobs';
+        this.onError = options.onError || (() => {});
+        this.states = options.states;
+    }
+
+    private update <
+        R,
+    > (
+        operation: (jobs: ScheduledJob[]) => [ScheduledJob[], R],
+    ) {
+        const result = this.queue.then(async () => {
+            const item = await this.store.get(this.key);
+            const [jobs, r] = operation(item ? item.value : []);
+
+            await this.store.set(this.key, jobs, '*');
+
+            return r;
+        });
+
+        this.queue = result.catch(() => {});
+
+        return result;
+    }
+
+    private setTimer (
+        job: ScheduledJob,
+    ) {
+        this.clearTimer(job.id);
+
+        // setTimeout fires right away when given more than maxDelay, so a longer wait takes several timers
+        const wait = job.at - this.clock.now();
+
+        this.timers.set(job.id, this.clock.setTimeout(() => wait > maxDelay
+            ? this.setTimer(job)
+            : this.fire(job.id)
+        , Math.min(wait, maxDelay)));
+    }
+
+    private clearTimer (
+        id: string,
+    ) {
+        if (this.timers.has(id)) {
+            this.clock.clearTimeout(this.timers.get(id));
+            this.timers.delete(id);
+        }
+    }
+
+    private fire (
+        id: string,
+    ) {
+        this.timers.delete(id);
+
+        return this
+            .update(jobs => {
+                const job = jobs.find(job => job.id === id);
+
+                if (!job)
+                    return [jobs, undefined];
+
+                if (!job.every)
+                    return [jobs.filter(job => job.id !== id), job];
+
+                const now = this.clock.now();
+                const next = {
+                    ... job,
+                    at: job.at + job.every * Math.max(1, Math.ceil((now - job.at) / job.every)),
+                };
+
+                return [jobs.map(job => job.id === id ? next : job), next];
+            })
+            .then(job => {
+                if (!job)
+                    return;
+
+                if (job.every)
+                    this.setTimer(job);
+
+                const run = () => this.actions.doAction(...this.getContextArgs(job))(this.actions.deserialize(job.action));
+
+                return Promise.resolve()
+                    .then(() => this.states && job.conversationId !== undefined
+                        ? this.states.turn(job.conversationId, run)
+                        : run()
+                    )
+                    .catch(error => this.onError(error, job));
+            });
+    }
+
+    /**
+     * Sets up the jobs in the store, e.g. after a restart. Those which are overdue run right away.
+     */
+
+    start () {
+        return this.queue
+            .then(() => this.store.get(this.key))
+            .then(item => {
+                for (const job of item ? item.value : [])
+                    this.setTimer(job);
+            });
+    }
+
+    /**
+     * Stops running jobs, without forgetting them
+     */
+
+    stop () {
+        for (const id of [... this.timers.keys()])
+            this.clearTimer(id);
+    }
+
+    /**
+     * Schedules an action
+     * @param scheduled The Scheduled, e.g. from `after` or `every`
+     * @param conversationId (optional) the id of the conversation which scheduled it
+     * @returns A Promise of the id of the job
+     */
+
+    schedule (
+        scheduled: Scheduled,
+        conversationId?: string,
+    ) {
+        const job: ScheduledJob = {
+            id: scheduled.options.id || Date.now().toString(36) + Math.random().toString(36).slice(2),
+            action: scheduled.action.toJSON(),
+            at: this.clock.now() + scheduled.delay,
+        };
+
+        if (scheduled.options.every)
+            job.every = scheduled.options.every;
+
+        if (conversationId !== undefined)
+            job.conversationId = conversationId;
+
+        return this
+            .update(jobs => [[... jobs.filter(j => j.id !== job.id), job], job.id])
+            .then(id => {
+                this.setTimer(job);
+
+                return id;
+            });
+    }
+
+    /**
+     * Cancels a job
+     * @param id The id of the job
+     * @returns A Promise of true if there was such a job, false otherwise
+     */
+
+    cancel (
+        id: string,
+    ) {
+        this.clearTimer(id);
+
+        return this.update(jobs => [jobs.filter(job => job.id !== id), jobs.some(job => job.id === id)]);
+    }
+
+    /**
+     * Retrieves the scheduled jobs
+     * @returns A Promise of the jobs, in the order they were scheduled
+     */
+
+    jobs () {
+        return this.queue
+            .then(() => this.store.get(this.key))
+            .then(item => item ? item.value : []);
+    }
+
+    /**
+     * Creates a transform which schedules its argument if it's a Scheduled, e.g. one returned by a rule, and otherwise passes it through
+     * @param conversationId (optional) the id of the conversation
+     * @returns A new transform which returns null once it has scheduled a Scheduled, or its argument otherwise
+     */
+
+    handle (
+        conversationId?: string,
+    ) {
+        return registerRule({
+            kind: 'schedule',
+        }, (result: any) => result instanceof Scheduled
+            ? this.schedule(result, conversationId).then(() => null)
+            : Promise.resolve(result)
+        );
+    }
+}
@@ -1,4 +1,4 @@
-import { tube, toArray, fromArray, Returns, ToArray, FromArray } from './prague';
+import { tube, tap, fromArray, getContext, invokeAll, concurrencyOf, ToArrayOptions, Returns, ToArray, FromArray, toPromise, registerRule, getRuleInfo, composite, isComposite, recordCoverage, isCoverageActive, PragueError, InvalidScoreError, Err, dedupe, DedupeOptions, flattenResults, Sourced } from './prague';
 
 /**
  * Wraps a result with its numeric score
@@ -16,7 +16,13 @@ export class Scored <
     private static normalizedScore (
         score?: number,
     ) {
-        return score != null && score >= 0 && score < 1
+        if (score == null)
+            return 1;
+
+        if (typeof score !== 'number' || isNaN(score) || score < 0)
+            throw new InvalidScoreError(score);
+
+        return score < 1
             ? score
             : 1;
     }
@@ -24,8 +30,9 @@ export class Scored <
     /**
      * Attempts to create a Scored
      * @param result The result on which the resultant Scored will be based
-     * @param score The score (> 0 and <= 1)
+     * @param score The score (> 0 and <= 1, higher scores count as 1)
      * @returns An instance of Scored, or null if result is null or undefined, or score is 0
+     * @throws InvalidScoreError if score is not a number >= 0
      */
 
     static from (
@@ -84,21 +91,28 @@ export class Scored <
 }
 
 /**
- * A transform which returns its argument, sorted
+ * A transform which returns its argument, sorted. An Err is always sorted last, so that a failure never outranks a result.
  * @param ascending true to sort ascending, false (or omit) to sort descending
  * @returns its argument if not an array, otherwise a sorted version of the argument
  */
 
+const isErr = (scored: Scored<any>) => scored.result instanceof Err;
+
 type MakeScored<O> = O extends [] ? null : O extends Array<infer T> ? Array<T extends Scored<infer U> ? T : Scored<T>> : O;
 
 export const sort = <O> (
     ascending = false,
-) => (o: O) => Promise.resolve(Array.isArray(o)
+) => registerRule({
+    kind: 'sort',
+}, (o: O) => Promise.resolve(Array.isArray(o)
     ? o
         .map(result => Scored.from(result))
-        .sort((a, b) => ascending ? (a.score - b.score) : (b.score - a.score))
+        .sort((a, b) => isErr(a) !== isErr(b)
+            ? (isErr(a) ? 1 : -1)
+            : ascending ? (a.score - b.score) : (b.score - a.score)
+        )
     : o
-) as Promise<MakeScored<O>>;
+) as Promise<MakeScored<O>>);
 
 export interface TopOptions {
     maxResults?: number;
@@ -108,7 +122,7 @@ export interface TopOptions {
 /**
  * A transform which returns the highest scoring elements of the argument
  * @param options maxResults and/or tolerance
- * @returns a new transform which the highest scoring elements as an array or results, a single result, or null, as appropriate.
+ * @returns a new transform which the highest scoring elements as an array or results, a single result, or null, as appropriate. An Err is only returned when there's nothing else.
  */
 
 export function top <
@@ -122,20 +136,22 @@ export function top <
     if (options) {
         if (options.maxResults) {
             if (typeof options.maxResults !== 'number' || options.maxResults < 1)
-                throw new Error ("maxResults must be a number >= 1");
+                throw new PragueError("maxResults must be a number >= 1");
 
             maxResults = options.maxResults;
         }
         
         if (options.tolerance) {
             if (typeof options.tolerance !== 'number' || options.tolerance < 0 || options.tolerance > 1)
-                throw new Error ("tolerance must be a number >= 0 and <= 1");
+                throw new PragueError("tolerance must be a number >= 0 and <= 1");
 
             tolerance  = options.tolerance;
         }
     }
 
-    return async (result: RESULT) => {
+    return registerRule({
+        kind: 'top',
+    }, async (result: RESULT) => {
         if (!Array.isArray(result))
             return result;
 
@@ -143,20 +159,24 @@ export function top <
 
         for (const _result of result) {
             if (!(_result instanceof Scored))
-                throw "top must only be called on Array of Scored";
+                throw new PragueError("top must only be called on Array of Scored");
 
-            if (top.length >= maxResults || _result.score + tolerance < result[0].score)
+            if (top.length >= maxResults || _result.score + tolerance < result[0].score || (top.length > 0 && isErr(_result) && !isErr(top[0])))
                 break;
             
             top.push(_result);
         }
 
         return top as unknown as RESULT;
-    }
+    });
 }
 
 type Unwrap<T> = T extends Scored<infer U> ? U : T;
 
+// While collecting coverage, `best` wraps each result in a Sourced, so that it can record which of its transforms returned the winner
+
+const sourcedForCoverage = new WeakSet<Sourced<any>>();
+
 /**
  * Composes multiple functions into a new transform which returns the highest-scoring result of the functions
  * @param transforms the functions to run, each of which should return a Scored result or an array of Scored results
@@ -244,15 +264,142 @@ export function best <
     ((...args: ARGS) => Returns<R0>)[]
 ): (...args: ARGS) => Promise<Unwrap<FromArray<MakeScored<ToArray<[], R0>>>>>;
 
-export function best <
-    ARGS extends any[],
-> (
-    ...transforms: ((...args: ARGS) => any)[]
+export function best (
+    ...transforms: ((...args: any[]) => any)[]
 ) {
-    return tube(
-        toArray(...transforms),
+    return _best({}, transforms);
+}
+
+export interface BestOptions extends ToArrayOptions {
+    /**
+     * true to stop waiting for the rest of the functions once a result scores 1, or scores at least as high as any function which hasn't returned can, as declared with `withMaxScore`
+     */
+    earlyExit?: boolean;
+
+    /**
+     * true, or the options for `dedupe`, to collapse duplicate results into one before picking the best. The sources passed to its ScoreCombiner are the indices of the functions which returned each duplicate.
+     */
+    dedupe?: boolean | DedupeOptions;
+}
+
+const scoreOf = (
+    result: any,
+): number => Array.isArray(result)
+    ? result.reduce((max: number, r) => Math.max(max, scoreOf(r)), 0)
+    : result == null
+        ? 0
+        : result instanceof Scored
+            ? result.score
+            : 1;
+
+const maxScoreOf = (
+    transform: Function,
+) => {
+    const maxScore = getRuleInfo(transform).maxScore;
+
+    return maxScore === undefined
+        ? 1
+        : maxScore;
+}
+
+const _best = (
+    options: BestOptions,
+    transforms: ((...args: any[]) => any)[],
+) => {
+    const concurrency = concurrencyOf(options);
+
+    const isDone = options.earlyExit
+        ? (results: any[], pending: number[]) => {
+            const score = scoreOf(results);
+
+            return score >= 1 || pending.every(index => maxScoreOf(transforms[index]) <= score);
+        }
+        : undefined;
+
+    // `dedupe` creates new results, so each is wrapped in a Sourced which records the function which returned it, both for its ScoreCombiner and for coverage
+    const wrap = !!(options.sourced || options.dedupe);
+
+    const _toArray = registerRule({
+        kind: 'toArray',
+        children: transforms,
+    }, composite(async (...args: any[]) => {
+        const results = await invokeAll(getContext(), transforms, args, concurrency, isDone);
+
+        if (wrap || !isCoverageActive())
+            return flattenResults(results, wrap);
+
+        const sourced = flattenResults(results, true);
+
+        for (const result of sourced)
+            sourcedForCoverage.add(Scored.unwrap(result));
+
+        return sourced;
+    }));
+
+    const isSourced = (result: any): result is Sourced<any> => result instanceof Sourced && (wrap || sourcedForCoverage.has(result));
+
+    const __best = registerRule({
+        kind: 'best',
+        children: transforms,
+    }, tube(
+        options.dedupe
+            ? tube(_toArray, dedupe(options.dedupe === true ? undefined : options.dedupe))
+            : _toArray,
         sort(),
         fromArray,
+        tap(winner => {
+            const unwrapped = Scored.unwrap(winner);
+
+            if (isSourced(unwrapped))
+                recordCoverage(__best, `won ${Array.isArray(unwrapped.source) ? unwrapped.source[0] : unwrapped.source}`);
+        }),
         Scored.unwrap,
-    );
+        (result: any) => isSourced(result) && !options.sourced
+            ? Sourced.unwrap(result)
+            : result,
+    ));
+
+    return __best;
+}
+
+/**
+ * Creates a version of `best` which runs its functions as configured
+ * @param options concurrency, sourced, earlyExit, and/or dedupe
+ * @returns A function which composes functions like `best`. With sourced, the best result is wrapped in a Sourced whose source is the index of the function which returned it.
+ */
+
+export const bestWith = (
+    options: BestOptions,
+) => {
+    concurrencyOf(options);
+
+    return ((...transforms: ((...args: any[]) => any)[]) => _best(options, transforms)) as typeof best;
+}
+
+/**
+ * Wraps a function in a new transform which declares the highest score it can return, so that `bestWith({ earlyExit: true })` can stop waiting for it once another result scores at least as high
+ * @param score The highest score the function can return
+ * @param transform The function
+ * @returns A new transform
+ */
+
+export const withMaxScore = <
+    ARGS extends any[],
+    O,
+> (
+    score: number,
+    transform: (...args: ARGS) => Returns<O>,
+) => {
+    if (typeof score !== 'number' || !(score >= 0 && score <= 1))
+        throw new InvalidScoreError(score);
+
+    const _withMaxScore = registerRule({
+        ... getRuleInfo(transform),
+        maxScore: score,
+        wraps: transform,
+    }, (...args: ARGS) => toPromise(transform(...args)));
+
+    return isComposite(transform)
+        ? composite(_withMaxScore)
+        : _withMaxScore;
 }
@@ -0,0 +1,169 @@
+import { Returns, Context, getContext, invoke, Store, MemoryStore, PragueError } from './prague';
+
+/**
+ * A state update: a function which returns a new state based on the previous one, without changing it
+ */
+
+export type Reducer <
+    STATE,
+> = (state: Readonly<STATE>) => STATE;
+
+const deepFreeze = <
+    T,
+> (
+    o: T,
+) => {
+    if (o instanceof Object && !Object.isFrozen(o)) {
+        Object.freeze(o);
+
+        for (const key of Object.keys(o))
+            deepFreeze((o as any)[key]);
+    }
+
+    return o as Readonly<T>;
+}
+
+/**
+ * Collects the state updates in the result of a turn
+ * @param result A Reducer, an array of them (or of arrays of them, e.g. the results of an ActionBatch), or anything else, which is ignored
+ * @returns The Reducers, in order
+ */
+
+export const toReducers = <
+    STATE,
+> (
+    result: any,
+): Reducer<STATE>[] => Array.isArray(result)
+    ? result.reduce((reducers, o) => [... reducers, ... toReducers<STATE>(o)], [] as Reducer<STATE>[])
+    : typeof result === 'function'
+        ? [result]
+        : [];
+
+/**
+ * Queues a state update, to be applied along with those returned by the current `ConversationStates.turn`, e.g. when a rule needs to update the state whichever action is taken
+ * @param reducer The state update
+ * @param context (optional) the Context of the turn, if this is called after an `await`. Defaults to the current Context.
+ */
+
+export const updateState = <
+    STATE,
+> (
+    reducer: Reducer<STATE>,
+    context: Context = getContext(),
+) => {
+    if (!context.stateUpdates)
+        throw new PragueError("updateState must be called during ConversationStates.turn");
+
+    context.stateUpdates.push(reducer as Reducer<any>);
+}
+
+/**
+ * Keeps the state of each conversation in a Store, and updates it once per turn.
+ * Each turn gets an immutable snapshot of the state, and returns Reducers (e.g. the results of actions) instead of changing it.
+ * Turns of the same conversation run one at a time.
+ */
+
+export class ConversationStates <
+    STATE,
+> {
+    private turns = new Map<string, Promise<any>>();
+
+    /**
+     * Create a ConversationStates
+     * @param initialState The state of a new conversation, which is frozen
+     * @param store (optional) where to keep the states. Defaults to a MemoryStore.
+     */
+
+    constructor (
+        private initialState: STATE,
+        private store: Store<STATE> = new MemoryStore<STATE>(),
+    ) {
+        deepFreeze(initialState);
+    }
+
+    private async load (
+        conversationId: string,
+    ): Promise<[Readonly<STATE>, string | undefined]> {
+        const item = await this.store.get(conversationId);
+
+        return item
+            ? [deepFreeze(item.value), item.etag]
+            : [this.initialState, undefined];
+    }
+
+    /**
+     * Retrieves the current state of a conversation
+     * @param conversationId The id of the conversation
+     * @returns A Promise of an immutable snapshot of the state
+     */
+
+    get (
+        conversationId: string,
+    ) {
+        return this.load(conversationId)
+            .then(([state]) => state);
+    }
+
+    /**
+     * Runs a turn of a conversation, and then applies the state updates it returns, and saves the new state
+     * @param conversationId The id of the conversation
+     * @param transform The turn, which is called with a snapshot of the state, and returns a Reducer, an array of them, or anything else, which leaves the state unchanged
+     * @returns A Promise of the new state, after the updates queued with `updateState` and then those returned. If the turn throws, the state is unchanged. If the state was changed elsewhere during the turn, e.g. by another instance of the bot sharing the Store, rejects with a ConflictError.
+     */
+
+    turn (
+        conversationId: string,
+        transform: (state: Readonly<STATE>) => Returns<any>,
+    ): Promise<Readonly<STATE>> {
+        const context = getContext();
+        const previous = this.turns.get(conversationId) || Promise.resolve();
+
+        const turn = previous
+            .catch(() => {})
+            .then(() => this.load(conversationId))
+            .then(async ([state, etag]) => {
+                const stateUpdates: Reducer<any>[] = [];
+
+                const result = await invoke({
+                    ... context,
+                    stateUpdates,
+                }, transform, [state]);
+
+                const reducers = [... stateUpdates as Reducer<STATE>[], ... toReducers<STATE>(result)];
+
+                if (reducers.length === 0)
+                    return state;
+
+                const newState = deepFreeze(reducers.reduce(
+                    (state, reducer) => reducer(state),
+                    state as STATE,
+                ));
+
+                await this.store.set(conversationId, newState, etag);
+
+                return newState;
+            });
+
+        this.turns.set(conversationId, turn);
+
+        turn
+            .catch(() => {})
+            .then(() => {
+                if (this.turns.get(conversationId) === turn)
+                    this.turns.delete(conversationId);
+            });
+
+        return turn;
+    }
+
+    /**
+     * Forgets the state of a conversation, so that its next turn starts with the initial state
+     * @param conversationId The id of the conversation
+     */
+
+    delete (
+        conversationId: string,
+    ) {
+        return this.store.delete(conversationId);
+    }
+}
@@ -0,0 +1,230 @@
+import { ConflictError } from './prague';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A stored value, with the etag which identifies this version of it
+ */
+
+export interface StoreItem <
+    T,
+> {
+    value: T;
+    etag: string;
+}
+
+/**
+ * Somewhere to keep values between turns, e.g. the state of each conversation. Writes use optimistic concurrency:
+ * pass the etag of the version you read, and the write fails with a ConflictError if it has changed since.
+ */
+
+export interface Store <
+    T,
+> {
+    /**
+     * Reads an item
+     * @param key The key of the item
+     * @returns A Promise of the item, or undefined if there is none
+     */
+
+    get (
+        key: string,
+    ): Promise<StoreItem<T> | undefined>;
+
+    /**
+     * Writes an item
+     * @param key The key of the item
+     * @param value The value to write
+     * @param etag The etag of the item when it was read, undefined if there was none, or '*' to write regardless
+     * @returns A Promise of the etag of the new version, which rejects with a ConflictError if the item has changed
+     */
+
+    set (
+        key: string,
+        value: T,
+        etag: string | undefined,
+    ): Promise<string>;
+
+    /**
+     * Deletes an item
+     * @param key The key of the item
+     * @param etag (optional) the etag of the item when it was read, or '*' (the default) to delete regardless
+     * @returns A Promise which rejects with a ConflictError if the item has changed
+     */
+
+    delete (
+        key: string,
+        etag?: string,
+    ): Promise<void>;
+}
+
+const isCurrent = (
+    item: StoreItem<any> | undefined,
+    etag: string | undefined,
+) => etag === '*' || (item ? item.etag === etag : etag === undefined);
+
+/**
+ * A Store which keeps values in memory, e.g. for tests. Values are copied as JSON, so later changes to them aren't stored.
+ */
+
+export class MemoryStore <
+    T,
+> implements Store<T> {
+    private items = new Map<string, StoreItem<string>>();
+    private lastEtag = 0;
+
+    async get (
+        key: string,
+    ) {
+        const item = this.items.get(key);
+
+        return item && {
+            value: JSON.parse(item.value) as T,
+            etag: item.etag,
+        };
+    }
+
+    async set (
+        key: string,
+        value: T,
+        etag: string | undefined,
+    ) {
+        if (!isCurrent(this.items.get(key), etag))
+            throw new ConflictError(key);
+
+        const item = {
+            value: JSON.stringify(value),
+            etag: String(++this.lastEtag),
+        };
+
+        this.items.set(key, item);
+
+        return item.etag;
+    }
+
+    async delete (
+        key: string,
+        etag = '*',
+    ) {
+        if (!isCurrent(this.items.get(key), etag))
+            throw new ConflictError(key);
+
+        this.items.delete(key);
+    }
+}
+
+// Creates a directory and any missing parents, without relying on mkdir's `recursive` option, which Node only has since 10.12
+
+const makeDirectory = async (
+    directory: string,
+): Promise<void> => {
+    try {
+        await fs.promises.mkdir(directory);
+    } catch (error) {
+        if (error.code === 'EEXIST')
+            return;
+
+        if (error.code !== 'ENOENT' || path.dirname(directory) === directory)
+            throw error;
+
+        await makeDirectory(path.dirname(directory));
+        await makeDirectory(directory);
+    }
+}
+
+/**
+ * A Store which keeps each value as a JSON file in a directory, so that it survives a restart
+ */
+
+export class FileStore <
+    T,
+> implements Store<T> {
+    // reads and writes happen one at a time, so that a write can't interleave with the check of its etag
+    private queue: Promise<any> = Promise.resolve();
+
+    /**
+     * Create a FileStore
+     * @param directory The directory in which to keep the files. It's created if it doesn't exist.
+     */
+
+    constructor (
+        private directory: string,
+    ) {
+    }
+
+    private fileOf (
+        key: string,
+    ) {
+        return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+    }
+
+    private serialize <
+        R,
+    > (
+        operation: () => Promise<R>,
+    ) {
+        const result = this.queue.then(operation);
+
+        this.queue = result.catch(() => {});
+
+        return result;
+    }
+
+    private async read (
+        key: string,
+    ) {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.fileOf(key), 'utf8')) as StoreItem<T>;
+        } catch (error) {
+            if (error.code === 'ENOENT')
+                return undefined;
+
+            throw error;
+        }
+    }
+
+    get (
+        key: string,
+    ) {
+        return this.serialize(() => this.read(key));
+    }
+
+    set (
+        key: string,
+        value: T,
+        etag: string | undefined,
+    ) {
+        return this.serialize(async () => {
+            const item = await this.read(key);
+
+            if (!isCurrent(item, etag))
+                throw new ConflictError(key);
+
+            const newEtag = Date.now().toString(36) + Math.random().toString(36).slice(2);
+            const file = this.fileOf(key);
+
+            await makeDirectory(this.directory);
+
+            // write, then rename, so that a crash can't leave a half-written file
+            await fs.promises.writeFile(`${file}.tmp`, JSON.stringify({ value, etag: newEtag }));
+            await fs.promises.rename(`${file}.tmp`, file);
+
+            return newEtag;
+        });
+    }
+
+    delete (
+        key: string,
+        etag = '*',
+    ) {
+        return this.serialize(async () => {
+            const item = await this.read(key);
+
+            if (!isCurrent(item, etag))
+                throw new ConflictError(key);
+
+            if (item)
+                await fs.promises.unlink(this.fileOf(key));
+        });
+    }
+}
@@ -0,0 +1,119 @@
+import { Returns, Context, getContext, tryInvoke, composite, registerRule, sort, top, TopOptions, Scored } from './prague';
+const flat = require('array.prototype.flat');
+
+async function* _toArrayStream <
+    ARGS extends any[],
+> (
+    context: Context,
+    transforms: ((...args: ARGS) => any)[],
+    args: ARGS,
+) {
+    const results: any[] = new Array(transforms.length);
+    const pending = new Map(transforms.map((transform, index) => {
+        const settled = tryInvoke(context, transform, args)
+            .then(result => [index, result] as [number, any]);
+
+        // a consumer may stop listening before every transform settles
+        settled.catch(() => {});
+
+        return [index, settled] as [number, Promise<[number, any]>];
+    }));
+
+    while (pending.size) {
+        const [index, result] = await Promise.race(pending.values());
+
+        pending.delete(index);
+
+        if (result != null) {
+            results[index] = result;
+            yield flat(results.filter(o => o != null)) as any[];
+        }
+    }
+}
+
+/**
+ * Composes multiple functions into a new transform which, like `toArray`, collects the non-null results of the functions, but yields the results collected so far each time one of them returns one
+ * @param ARGS the type of the arguments to the functions and the resultant transform
+ * @param transforms the functions to run
+ * @returns a new transform which returns an AsyncIterable of arrays of results, in the order of the functions
+ */
+
+export const toArrayStream = <
+    ARGS extends any[],
+> (
+    ...transforms: ((...args: ARGS) => any)[]
+) => registerRule({
+    kind: 'toArrayStream',
+    children: transforms,
+}, composite((...args: ARGS) => Promise.resolve(
+    _toArrayStream(getContext(), transforms, args) as AsyncIterable<any[]>
+)));
+
+async function* _mapStream (
+    stream: AsyncIterable<any>,
+    transform: (o: any) => any,
+) {
+    for await (const o of stream) {
+        const result = await transform(o);
+
+        if (result != null)
+            yield result;
+    }
+}
+
+/**
+ * A transform which runs a function on each array yielded by a stream, e.g. one created by `toArrayStream`
+ * @param transform The function to run on each array
+ * @returns a new transform which returns an AsyncIterable of the non-null results of the function
+ */
+
+export const mapStream = <
+    T,
+    O,
+> (
+    transform: (o: T) => Returns<O>,
+) => registerRule({
+    kind: 'mapStream',
+    children: [transform],
+}, (stream: AsyncIterable<T>) => Promise.resolve(
+    _mapStream(stream, transform) as AsyncIterable<NonNullable<O>>
+));
+
+/**
+ * A transform which, like `sort`, sorts each array yielded by a stream
+ * @param ascending true to sort ascending, false (or omit) to sort descending
+ * @returns a new transform which returns an AsyncIterable of sorted arrays of Scored
+ */
+
+export const sortStream = (
+    ascending = false,
+) => mapStream((o: any[]) => sort(ascending)(o) as Promise<Scored<any>[]>);
+
+/**
+ * A transform which, like `top`, retrieves the highest scoring elements of each array yielded by a stream of sorted arrays
+ * @param options maxResults and/or tolerance
+ * @returns a new transform which returns an AsyncIterable of arrays of the highest scoring elements
+ */
+
+export const topStream = (
+    options?: TopOptions,
+) => mapStream(top<Scored<any>[]>(options));
+
+/**
+ * A transform which waits for a stream to finish, and returns the last array it yielded
+ * @param stream The stream, e.g. one created by `toArrayStream`
+ * @returns the last array, or an empty array if the stream yielded none, i.e. what `toArray` (with `sort` and `top`, as appropriate) would have returned
+ */
+
+export const collect = async <
+    T,
+> (
+    stream: AsyncIterable<T[]>,
+) => {
+    let last: T[] = [];
+
+    for await (const o of stream)
+        last = o;
+
+    return last;
+}
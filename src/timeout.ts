@@ -0,0 +1,50 @@
+import { Returns, getContext, invoke, composite } from './prague';
+
+export interface TimeoutOptions {
+    /**
+     * true to reject with a TimeoutError when the deadline passes, false (or omit) to count late transforms as null
+     */
+    throwOnTimeout?: boolean;
+}
+
+/**
+ * Wraps a function in a new transform which must finish by the supplied deadline. Every transform it composes shares that deadline.
+ * @param deadline The time (in milliseconds since the epoch) by which to finish. An earlier deadline in the current Context takes precedence.
+ * @param transform The function to run
+ * @param options throwOnTimeout
+ * @returns A new transform which returns the result of the function, or null if it misses the deadline
+ */
+
+export const withDeadline = <
+    ARGS extends any[],
+    O,
+> (
+    deadline: number,
+    transform: (...args: ARGS) => Returns<O>,
+    options: TimeoutOptions = {},
+) => composite((...args: ARGS) => {
+    const context = getContext();
+
+    return invoke({
+        ... context,
+        deadline: context.deadline === undefined ? deadline : Math.min(deadline, context.deadline),
+        throwOnTimeout: options.throwOnTimeout === undefined ? context.throwOnTimeout : options.throwOnTimeout,
+    }, transform, args);
+});
+
+/**
+ * Wraps a function in a new transform which must finish within the supplied number of milliseconds of being called
+ * @param ms The budget for each call of the transform, including every transform it composes
+ * @param transform The function to run
+ * @param options throwOnTimeout
+ * @returns A new transform which returns the result of the function, or null if it takes too long
+ */
+
+export const timeout = <
+    ARGS extends any[],
+    O,
+> (
+    ms: number,
+    transform: (...args: ARGS) => Returns<O>,
+    options?: TimeoutOptions,
+) => composite((...args: ARGS) => withDeadline(Date.now() + ms, transform, options)(...args));
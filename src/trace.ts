@@ -0,0 +1,203 @@
+import { Returns, Scored, ActionReference, getContext, invoke, composite, registerRule, nameOf } from './prague';
+
+/**
+ * A record of a single call of a transform, and of the calls it made in turn
+ */
+
+export class TraceNode {
+    result?: any;
+    score?: number;
+    error?: any;
+    duration?: number;
+
+    /**
+     * true if a tube stopped at this transform because a function returned null
+     */
+    shortCircuited?: boolean;
+
+    /**
+     * Which function a branch (and thus a match or matchIf) ran
+     */
+    branch?: 'onResult' | 'onNull';
+
+    children: TraceNode[] = [];
+
+    private start = Date.now();
+
+    /**
+     * Create a TraceNode
+     * @param name The label of the transform
+     * @param args The arguments to the transform
+     */
+
+    constructor (
+        public name: string,
+        public args: any[],
+    ) {
+    }
+
+    /**
+     * Records the call of a transform made during this one
+     * @param transform The transform being called
+     * @param args The arguments to the transform
+     * @returns The TraceNode for the new call
+     */
+
+    child (
+        transform: Function,
+        args: any[],
+    ) {
+        const node = new TraceNode(nameOf(transform), args);
+        this.children.push(node);
+        return node;
+    }
+
+    /**
+     * Records the outcome of this call once it settles
+     * @param promise The result of the call
+     * @returns promise
+     */
+
+    settle <O> (
+        promise: Promise<O>,
+    ) {
+        promise.then(result => {
+            this.duration = Date.now() - this.start;
+            this.result = result;
+
+            if (result instanceof Scored)
+                this.score = result.score;
+        }, error => {
+            this.duration = Date.now() - this.start;
+            this.error = error;
+        });
+
+        return promise;
+    }
+
+    toJSON (): object {
+        return {
+            name: this.name,
+            args: this.args,
+            result: this.result,
+            score: this.score,
+            error: this.error === undefined ? undefined : String(this.error),
+            duration: this.duration,
+            shortCircuited: this.shortCircuited,
+            branch: this.branch,
+            children: this.children,
+        };
+    }
+
+    /**
+     * Pretty-prints this call and the calls it made, one per line, indented by depth
+     * @param indent The indentation of this call
+     */
+
+    toString (
+        indent = '',
+    ): string {
+        const notes: string[] = [];
+
+        if (this.score !== undefined)
+            notes.push(`score ${this.score}`);
+
+        if (this.branch)
+            notes.push(`ran ${this.branch}`);
+
+        if (this.shortCircuited)
+            notes.push(`short-circuited`);
+
+        if (this.duration !== undefined)
+            notes.push(`${this.duration}ms`);
+
+        const outcome = this.error !== undefined
+            ? `threw ${describe(this.error)}`
+            : this.duration === undefined
+                ? `pending`
+                : `=> ${describe(this.result)}`;
+
+        return [
+            `${indent}${this.name}(${this.args.map(describe).join(', ')}) ${outcome}${notes.length ? ` [${notes.join(', ')}]` : ''}`,
+            ... this.children.map(child => child.toString(indent + '  ')),
+        ].join('\n');
+    }
+}
+
+const describe = (
+    value: any,
+): string => {
+    if (value instanceof Scored)
+        return describe(value.result);
+
+    if (value instanceof ActionReference)
+        return `${value.name}(${value.args.map(describe).join(', ')})`;
+
+    if (typeof value === 'function')
+        return `[Function ${nameOf(value)}]`;
+
+    if (Array.isArray(value))
+        return `[${value.map(describe).join(', ')}]`;
+
+    if (value === undefined)
+        return 'undefined';
+
+    try {
+        return JSON.stringify(value);
+    } catch (err) {
+        return String(value);
+    }
+}
+
+/**
+ * Records every call of the transforms composed by `first`, `tube`, `pipe`, `toArray`, `best`, etc., for debugging and testing
+ */
+
+export class Tracer {
+    private root = new TraceNode('trace', []);
+
+    /**
+     * The calls traced so far, one per call of a traced transform
+     */
+
+    get calls () {
+        return this.root.children;
+    }
+
+    /**
+     * Wraps a function in a new transform whose calls are traced
+     * @param transform The function to trace
+     * @returns A new transform
+     */
+
+    trace <
+        ARGS extends any[],
+        O,
+    > (
+        transform: (...args: ARGS) => Returns<O>,
+    ) {
+        return registerRule({
+            kind: 'trace',
+            children: [transform],
+        }, composite((...args: ARGS) => invoke({
+            ... getContext(),
+            trace: this.root,
+        }, transform, args)));
+    }
+
+    /**
+     * Forgets the calls traced so far
+     */
+
+    clear () {
+        this.root.children = [];
+    }
+
+    toJSON () {
+        return this.calls;
+    }
+
+    toString () {
+        return this.calls.map(call => call.toString()).join('\n');
+    }
+}
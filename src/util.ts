@@ -1,4 +1,4 @@
-import { match } from "./prague";
+import { match, getContext, throwIfAborted, registerRule, FetchError } from "./prague";
 
 /**
  * Wraps a Regular Expression in a transform
@@ -20,33 +20,41 @@ export function re (
     regexp: RegExp,
     group?: number,
 ) {
-    return match(
+    return registerRule({
+        kind: `re(${regexp})`,
+        children: [],
+    }, match(
         (text: string) => regexp.exec(text),
         groups => group ? groups[group] : groups
-    );
+    ));
 }
 
 /**
- * Helper for calling fetch
+ * Helper for calling fetch. To abort the underlying request along with the evaluation, pass `getContext().signal` to `fetch`.
  * @param T the type of the response (defaults to any)
- * @param error (optional) the string to return if the response is not ok, or a function which creates the string to return based on the body
+ * @param error (optional) the message of the FetchError to throw if the response is not ok, or a function which creates the message based on the body
  * @returns Promise<T>
  */
 
 export const getFetchJson = <T = any> (
     error: undefined | string | ((body: string) => string)
-) => (r: Response) => {
-    if (!r.ok) {
-        if (typeof error === 'string')
-            throw error;
+) => {
+    const context = getContext();
 
-        if (typeof error === 'function')    
+    return (r: Response) => {
+        throwIfAborted(context);
+
+        if (!r.ok)
             return r.text().then(body => {
-                throw error(body);
+                throw new FetchError(
+                    typeof error === 'string' ? error
+                    : typeof error === 'function' ? error(body)
+                    : "the fetch returned an error",
+                    r.status,
+                    body,
+                );
             });
 
-        throw "the fetch returned an error";
+        return r.json() as Promise<T>;
     }
-
-    return r.json() as Promise<T>;
 }
\ No newline at end of file
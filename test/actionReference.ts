@@ -1,5 +1,5 @@
-import { expect } from './common';
-import { ActionReference, ActionReferences, tube } from '../src/prague';
+import { expect, rejects } from './common';
+import { ActionReference, ActionReferences, ActionMiddleware, declareAction, declareActions, ForbiddenActionError, best, sort, top, toArray, ActionBatch, sequence, parallel, sequenceWith, parallelWith, Err, UnknownActionError, InvalidActionReferenceError, tube } from '../src/prague';
 
 describe("ActionReference", () => {
     it("should create an ActionReference with no args", () => {
@@ -13,6 +13,13 @@ describe("ActionReference", () => {
         expect(ar.name).equals("bill");
         expect(ar.args).deep.equals([13, "cat"]);
     });
+
+    it("should serialize to JSON", () => {
+        expect(JSON.parse(JSON.stringify(new ActionReference("bill", 13, { cat: true })))).deep.equals({
+            name: "bill",
+            args: [13, { cat: true }],
+        });
+    });
 });
 
 describe("ActionReferences", () => {
@@ -77,4 +84,674 @@ describe("ActionReferences", () => {
         expect(greeting.result.args).deep.equals(["bill"]);
     });
 
+    describe("deserialize", () => {
+        const validated = new ActionReferences(() => ({
+            greeting: (name: string, times?: number) => {},
+            tag: (tags: string[], o: object, flag: boolean) => {},
+            anything: (o: any) => {},
+            unvalidated: (...args: any[]) => {},
+        }), {
+            greeting: ['string', (times: any) => times === undefined || Number.isInteger(times)],
+            tag: ['array', 'object', 'boolean'],
+            anything: ['any'],
+        });
+
+        it("should round-trip an ActionReference", () => {
+            const ar = validated.deserialize(JSON.stringify(validated.reference.greeting("bill", 2)));
+            expect(ar).instanceof(ActionReference);
+            expect(ar.name).equals("greeting");
+            expect(ar.args).deep.equals(["bill", 2]);
+        });
+
+        it("should deserialize an object", () => {
+            const ar = validated.deserialize({ name: "tag", args: [["a"], { b: 1 }, false] });
+            expect(ar.args).deep.equals([["a"], { b: 1 }, false]);
+        });
+
+        it("should allow missing args which match their schemas", () => {
+            expect(validated.deserialize({ name: "greeting", args: ["bill"] }).args).deep.equals(["bill"]);
+            expect(validated.deserialize({ name: "anything", args: [] }).args).deep.equals([]);
+        });
+
+        it("should not validate the args of an action without a schema", () => {
+            expect(validated.deserialize({ name: "unvalidated", args: [1, "2", null] }).args).deep.equals([1, "2", null]);
+        });
+
+        it("should throw an UnknownActionError for an unknown action", () => {
+            expect(() => validated.deserialize({ name: "nope", args: [] })).throws(UnknownActionError);
+        });
+
+        it("should throw an InvalidActionReferenceError for malformed input", () => {
+            expect(() => validated.deserialize("{")).throws(InvalidActionReferenceError);
+            expect(() => validated.deserialize("null")).throws(InvalidActionReferenceError);
+            expect(() => validated.deserialize({ name: "greeting" } as any)).throws(InvalidActionReferenceError);
+        });
+
+        it("should throw an InvalidActionReferenceError when the args don't match the schema", () => {
+            expect(() => validated.deserialize({ name: "greeting", args: [13] })).throws(InvalidActionReferenceError, "arg 0 of greeting doesn't match its schema");
+            expect(() => validated.deserialize({ name: "greeting", args: ["bill", 1.5] })).throws(InvalidActionReferenceError);
+            expect(() => validated.deserialize({ name: "greeting", args: ["bill", 1, 2] })).throws(InvalidActionReferenceError, "greeting takes at most 2 args, not 3");
+            expect(() => validated.deserialize({ name: "tag", args: [{}, [], false] })).throws(InvalidActionReferenceError);
+            expect(() => validated.deserialize({ name: "tag", args: [[], null, false] })).throws(InvalidActionReferenceError);
+        });
+    });
+
+    describe("use", () => {
+        type Send = (text: string) => void;
+
+        const middlewareActions = () => new ActionReferences((send: Send) => ({
+            greeting(name: string) {
+                send(`Nice to meet you, ${name}`);
+                return name;
+            },
+            fail() {
+                throw new Error("oops");
+            },
+            sorry() {
+                send(`Sorry`);
+            },
+        }));
+
+        const sent = () => {
+            const texts: string[] = [];
+            return { texts, send: (text: string) => { texts.push(text); } };
+        };
+
+        it("should run middleware around the action, first added outermost", () => {
+            const { texts, send } = sent();
+            const log = (label: string): ActionMiddleware<[Send]> => (reference, next, send) => {
+                send(`${label} before ${reference.name}`);
+                return next().then(result => {
+                    send(`${label} after`);
+                    return result;
+                });
+            };
+
+            return middlewareActions()
+                .use(log("a"), log("b"))
+                .doAction(send)(new ActionReference("greeting", "bill"))
+                .then(m => {
+                    expect(m).equals("bill");
+                    expect(texts).deep.equals([
+                        "a before greeting",
+                        "b before greeting",
+                        "Nice to meet you, bill",
+                        "b after",
+                        "a after",
+                    ]);
+                });
+        });
+
+        it("should let middleware rewrite the ActionReference", () => {
+            const { texts, send } = sent();
+
+            return middlewareActions()
+                .use((reference, next) => next(new ActionReference(reference.name, ... reference.args.map((arg: string) => arg.toUpperCase()))))
+                .doAction(send)(new ActionReference("greeting", "bill"))
+                .then(() => {
+                    expect(texts).deep.equals(["Nice to meet you, BILL"]);
+                });
+        });
+
+        it("should let middleware short-circuit the action", () => {
+            const { texts, send } = sent();
+
+            return middlewareActions()
+                .use(() => "denied")
+                .doAction(send)(new ActionReference("greeting", "bill"))
+                .then(m => {
+                    expect(m).equals("denied");
+                    expect(texts).deep.equals([]);
+                });
+        });
+
+        it("should let middleware convert errors into a fallback action", () => {
+            const { texts, send } = sent();
+
+            return middlewareActions()
+                .use((reference, next) => next().catch(() => next(new ActionReference("sorry"))))
+                .doAction(send)(new ActionReference("fail"))
+                .then(() => {
+                    expect(texts).deep.equals(["Sorry"]);
+                });
+        });
+
+        it("should reject with an UnknownActionError at the end of the chain", () => {
+            const actions = middlewareActions()
+                .use((reference, next) => next());
+
+            return rejects(actions.doAction(() => {})(new ActionReference("nope")), UnknownActionError);
+        });
+
+        it("should reject when middleware throws", () => {
+            const actions = middlewareActions()
+                .use(() => {
+                    throw new Error("unauthorized");
+                });
+
+            return rejects(actions.doAction(() => {})(new ActionReference("greeting", "bill")))
+                .then(err => {
+                    expect(err.message).equals("unauthorized");
+                });
+        });
+
+        it("should not run middleware for anything but an ActionReference", () => {
+            let called = false;
+
+            return middlewareActions()
+                .use(() => {
+                    called = true;
+                })
+                .doAction(() => {})("hi")
+                .then(m => {
+                    expect(m).is.null;
+                    expect(called).is.false;
+                });
+        });
+
+        it("should run middleware from run", () => {
+            const { texts, send } = sent();
+
+            return middlewareActions()
+                .use((reference, next, send) => {
+                    send("middleware");
+                    return next();
+                })
+                .run((name: string) => new ActionReference("greeting", name), send)("bill")
+                .then(() => {
+                    expect(texts).deep.equals(["middleware", "Nice to meet you, bill"]);
+                });
+        });
+    });
+
+    describe("ActionBatch", () => {
+        const batchActions = (log: string[]) => new ActionReferences(() => ({
+            wait: (name: string, ms: number) => new Promise(resolve => setTimeout(() => {
+                log.push(name);
+                resolve(name);
+            }, ms)),
+            fail(name: string) {
+                log.push(name);
+                throw new Error(name);
+            },
+        }));
+
+        it("should throw on an invalid onError", () => {
+            expect(() => sequenceWith({ onError: 'ignore' as any })()).throws();
+        });
+
+        it("should create an ActionBatch from reference stubs", () => {
+            const actions = batchActions([]);
+            const batch = sequence(actions.reference.wait("a", 0), parallel(actions.reference.fail("b")));
+            expect(batch).instanceof(ActionBatch);
+            expect(batch.mode).equals('sequence');
+            expect((batch.actions[1] as ActionBatch).mode).equals('parallel');
+        });
+
+        it("should run a sequence in order, returning the results", () => {
+            const log: string[] = [];
+            const actions = batchActions(log);
+
+            return actions.doAction()(sequence(
+                actions.reference.wait("a", 10),
+                actions.reference.wait("b", 0),
+            ))
+            .then(m => {
+                expect(m).deep.equals(["a", "b"]);
+                expect(log).deep.equals(["a", "b"]);
+            });
+        });
+
+        it("should run a parallel batch at once, returning the results in order", () => {
+            const log: string[] = [];
+            const actions = batchActions(log);
+
+            return actions.doAction()(parallel(
+                actions.reference.wait("a", 10),
+                actions.reference.wait("b", 0),
+            ))
+            .then(m => {
+                expect(m).deep.equals(["a", "b"]);
+                expect(log).deep.equals(["b", "a"]);
+            });
+        });
+
+        it("should run an array of (Scored) ActionReferences as a sequence, e.g. from top", () => {
+            const log: string[] = [];
+            const actions = batchActions(log);
+
+            return actions.run(tube(
+                toArray(
+                    () => actions.scoredReference.wait(.8, "a", 10),
+                    () => actions.scoredReference.wait(.8, "b", 0),
+                    () => actions.scoredReference.wait(.5, "c", 0),
+                ),
+                sort(),
+                top(),
+            ))()
+            .then(m => {
+                expect(m).deep.equals(["a", "b"]);
+                expect(log).deep.equals(["a", "b"]);
+            });
+        });
+
+        it("should return null for an empty array", () =>
+            batchActions([]).doAction()([])
+                .then(m => {
+                    expect(m).is.null;
+                })
+        );
+
+        it("should reject an array with anything but ActionReferences and ActionBatches in it", () =>
+            rejects(batchActions([]).doAction()([new ActionReference("wait", "a", 0), "hi"]))
+                .then(err => {
+                    expect(err.message).equals("doAction can only run an array of (Scored) ActionReferences and ActionBatches");
+                })
+        );
+
+        it("should run nested batches", () => {
+            const log: string[] = [];
+            const actions = batchActions(log);
+
+            return actions.doAction()(sequence(
+                parallel(
+                    actions.reference.wait("a", 10),
+                    actions.reference.wait("b", 0),
+                ),
+                actions.reference.wait("c", 0),
+            ))
+            .then(m => {
+                expect(m).deep.equals([["a", "b"], "c"]);
+                expect(log).deep.equals(["b", "a", "c"]);
+            });
+        });
+
+        it("should stop a sequence at the first error", () => {
+            const log: string[] = [];
+            const actions = batchActions(log);
+
+            const batch = sequence(
+                actions.reference.fail("a"),
+                actions.reference.wait("b", 0),
+            );
+
+            return rejects(actions.doAction()(batch))
+                .then(err => {
+                    expect(err.message).equals("a");
+                    expect(log).deep.equals(["a"]);
+                });
+        });
+
+        it("should reject a parallel batch with the first error", () => {
+            const batch = parallel(
+                new ActionReference("wait", "a", 0),
+                new ActionReference("fail", "b"),
+            );
+
+            return rejects(batchActions([]).doAction()(batch))
+                .then(err => {
+                    expect(err.message).equals("b");
+                });
+        });
+
+        it("should collect errors as Errs", () => {
+            const log: string[] = [];
+            const actions = batchActions(log);
+
+            return Promise.all([
+                actions.doAction()(sequenceWith({ onError: 'collect' })(
+                    actions.reference.fail("a"),
+                    actions.reference.wait("b", 0),
+                )),
+                actions.doAction()(parallelWith({ onError: 'collect' })(
+                    actions.reference.wait("c", 0),
+                    new ActionReference("nope"),
+                )),
+            ])
+            .then(([s, p]) => {
+                expect(s[0]).instanceof(Err);
+                expect(s[0].error.message).equals("a");
+                expect(s[1]).equals("b");
+                expect(p[0]).equals("c");
+                expect(p[1].error).instanceof(UnknownActionError);
+            });
+        });
+
+        it("should run each action of a batch through the middleware", () => {
+            const names: string[] = [];
+            const actions = batchActions([]);
+
+            return actions
+                .use((reference, next) => {
+                    names.push(reference.name);
+                    return next();
+                })
+                .run(() => sequence(
+                    actions.reference.wait("a", 0),
+                    parallel(actions.reference.wait("b", 0)),
+                ))()
+                .then(() => {
+                    expect(names).deep.equals(["wait", "wait"]);
+                });
+        });
+    });
+
+    describe("declared", () => {
+        type Send = (text: string) => void;
+
+        const billing = declareActions({
+            refund: declareAction<[number]>({ args: ['number'], description: "Refunds an amount" }),
+            balance: declareAction({ metadata: { adminOnly: true } }),
+        }, 'billing');
+
+        const support = declareActions({
+            ticket: declareAction<[string]>({ args: ['string'] }),
+        }, 'support');
+
+        let calls = 0;
+
+        const billingActions = billing.implement((send: Send, admin: boolean) => {
+            calls++;
+
+            return admin
+                ? {
+                    refund: amount => send(`refunded ${amount.toFixed(2)}`),
+                    balance: () => send(`balance 0`),
+                }
+                : {
+                    refund: amount => send(`refunded ${amount.toFixed(2)}`),
+                };
+        });
+
+        const supportActions = support.implement((send: Send, admin: boolean) => ({
+            ticket: (text: string) => send(`ticket ${text}`),
+        }));
+
+        it("should not call getActions to discover the actions", () => {
+            expect(calls).equals(0);
+        });
+
+        it("should name references within the namespace", () => {
+            const ar = billingActions.reference.refund(10);
+            expect(ar.name).equals("billing.refund");
+            expect(ar.args).deep.equals([10]);
+            expect(billingActions.scoredReference.balance(.5).result.name).equals("billing.balance");
+        });
+
+        it("should run the implementation for the context", () => {
+            const texts: string[] = [];
+
+            return billingActions.doAction(text => texts.push(text), false)(billingActions.reference.refund(10))
+                .then(() => {
+                    expect(texts).deep.equals(["refunded 10.00"]);
+                });
+        });
+
+        it("should reject with an UnknownActionError when the context doesn't implement the action", () =>
+            rejects(billingActions.doAction(() => {}, false)(billingActions.reference.balance()), UnknownActionError)
+                .then(err => {
+                    expect(err.action).equals("billing.balance");
+                })
+        );
+
+        it("should not run an action outside its namespace", () =>
+            rejects(billingActions.doAction(() => {}, true)(new ActionReference("refund", 10)), UnknownActionError)
+        );
+
+        it("should retrieve the declaration of an action", () => {
+            expect(billingActions.declarationOf("billing.refund")!.description).equals("Refunds an amount");
+            expect(billingActions.declarationOf("billing.balance")!.metadata).deep.equals({ adminOnly: true });
+            expect(billingActions.declarationOf("refund")).is.undefined;
+        });
+
+        it("should retrieve the schemas of undeclared actions as their declarations", () => {
+            const undeclared = new ActionReferences(() => ({
+                greeting: (name: string) => {},
+                farewell: () => {},
+            }), {
+                greeting: ['string'],
+            });
+
+            expect(undeclared.declarationOf("greeting")).deep.equals({ args: ['string'] });
+            expect(undeclared.declarationOf("farewell")).deep.equals({});
+        });
+
+        it("should validate deserialized args against the declared schemas", () => {
+            expect(billingActions.deserialize({ name: "billing.refund", args: [10] }).args).deep.equals([10]);
+            expect(() => billingActions.deserialize({ name: "billing.refund", args: ["10"] })).throws(InvalidActionReferenceError);
+            expect(() => billingActions.deserialize({ name: "refund", args: [10] })).throws(UnknownActionError);
+        });
+
+        describe("merge", () => {
+            const merged = ActionReferences.merge(billingActions, supportActions);
+
+            it("should throw when two actions have the same name", () => {
+                expect(() => ActionReferences.merge(billingActions, billingActions)).throws("billing.refund is declared more than once");
+            });
+
+            it("should run the actions of each", () => {
+                const texts: string[] = [];
+                const doAction = merged.doAction(text => texts.push(text), true);
+
+                return doAction(billingActions.reference.refund(5))
+                    .then(() => doAction(supportActions.reference.ticket("help")))
+                    .then(() => doAction(merged.reference['billing.balance']()))
+                    .then(() => {
+                        expect(texts).deep.equals(["refunded 5.00", "ticket help", "balance 0"]);
+                    });
+            });
+
+            it("should keep the declarations and schemas of each", () => {
+                expect(merged.declarationOf("billing.refund")!.description).equals("Refunds an amount");
+                expect(() => merged.deserialize({ name: "support.ticket", args: [13] })).throws(InvalidActionReferenceError);
+            });
+
+            it("should keep the compensations of each", () => {
+                const undoable = declareActions({
+                    open: declareAction(),
+                    close: declareAction(),
+                }, 'store').implement((send: Send, admin: boolean) => ({
+                    open: () => {},
+                    close: () => {},
+                }));
+
+                undoable.compensate({
+                    close: () => undoable.reference.open(),
+                });
+
+                const compensation = ActionReferences.merge(undoable, supportActions).compensationOf(undoable.reference.close())!;
+                expect(compensation.name).equals("store.open");
+            });
+        });
+    });
+
+    describe("guard", () => {
+        interface User {
+            admin: boolean;
+        }
+
+        const guardedActions = () => {
+            const texts: string[] = [];
+
+            const actions = new ActionReferences((user: User) => ({
+                close() {
+                    texts.push("closed");
+                },
+                refund(amount: number) {
+                    texts.push(`refunded ${amount}`);
+                },
+                greet() {
+                    texts.push("hi");
+                },
+                denied() {
+                    texts.push("denied");
+                },
+            }));
+
+            actions.guard({
+                close: ([user]) => user.admin,
+                refund: ([user], amount) => Promise.resolve(user.admin || amount < 100),
+            });
+
+            return { texts, actions };
+        }
+
+        const admin = { admin: true };
+        const guest = { admin: false };
+
+        it("should run an action whose guard allows it", () => {
+            const { texts, actions } = guardedActions();
+
+            return actions.doAction(admin)(actions.reference.close())
+                .then(() => actions.doAction(guest)(actions.reference.refund(50)))
+                .then(() => actions.doAction(guest)(actions.reference.greet()))
+                .then(() => {
+                    expect(texts).deep.equals(["closed", "refunded 50", "hi"]);
+                });
+        });
+
+        it("should reject with a ForbiddenActionError when its guard refuses it", () => {
+            const { texts, actions } = guardedActions();
+
+            return rejects(actions.doAction(guest)(actions.reference.refund(500)), ForbiddenActionError)
+                .then(err => {
+                    expect(err.action).equals("refund");
+                    expect(texts).deep.equals([]);
+                });
+        });
+
+        it("should reject when a guard throws", () => {
+            const { actions } = guardedActions();
+
+            actions.guard({
+                greet: () => {
+                    throw new Error("oops");
+                },
+            });
+
+            return rejects(actions.doAction(guest)(actions.reference.greet()))
+                .then(err => {
+                    expect(err.message).equals("oops");
+                });
+        });
+
+        it("should run the fallback instead", () => {
+            const { texts, actions } = guardedActions();
+
+            actions.guard({}, { fallback: () => actions.reference.denied() });
+
+            return actions.doAction(guest)(actions.reference.close())
+                .then(() => {
+                    expect(texts).deep.equals(["denied"]);
+                });
+        });
+
+        it("should run the fallback through the middleware", () => {
+            const { texts, actions } = guardedActions();
+
+            actions
+                .use((reference, next) => {
+                    texts.push(`middleware ${reference.name}`);
+                    return next();
+                })
+                .guard({}, { fallback: () => actions.reference.denied() });
+
+            return actions.doAction(guest)(actions.reference.close())
+                .then(() => {
+                    expect(texts).deep.equals(["middleware close", "middleware denied", "denied"]);
+                });
+        });
+
+        it("should not fall back from a refused fallback", () => {
+            const { texts, actions } = guardedActions();
+
+            actions.guard({}, { fallback: () => actions.reference.refund(500) });
+
+            return rejects(actions.doAction(guest)(actions.reference.close()), ForbiddenActionError)
+                .then(() => {
+                    expect(texts).deep.equals([]);
+                });
+        });
+
+        it("should reject when the fallback's guard refuses it too", () => {
+            const { actions } = guardedActions();
+
+            actions.guard({}, { fallback: () => actions.reference.close() });
+
+            return rejects(actions.doAction(guest)(actions.reference.close()), ForbiddenActionError);
+        });
+
+        it("should let middleware see a refusal", () => {
+            const { texts, actions } = guardedActions();
+
+            actions.use((reference, next) => next().catch(err => {
+                texts.push(err.message);
+            }));
+
+            return actions.doAction(guest)(actions.reference.close())
+                .then(() => {
+                    expect(texts).deep.equals(["close is not allowed"]);
+                });
+        });
+
+        it("should drop refused candidates from an array before ranking", () => {
+            const { actions } = guardedActions();
+
+            return tube(
+                toArray(
+                    () => actions.scoredReference.close(.9),
+                    () => actions.scoredReference.refund(.8, 500),
+                    () => actions.scoredReference.refund(.5, 50),
+                ),
+                actions.allowed(guest),
+                sort(),
+                top(),
+            )()
+            .then(m => {
+                expect(m!.map(scored => scored.result)).deep.equals([actions.reference.refund(50)]);
+            });
+        });
+
+        it("should return null for a single refused candidate", () => {
+            const { actions } = guardedActions();
+
+            return Promise.all([
+                actions.allowed(guest)(actions.reference.close()),
+                actions.allowed(admin)(actions.scoredReference.close(.5)),
+                actions.allowed(guest)("hi"),
+            ])
+            .then(([refused, allowed, other]) => {
+                expect(refused).is.null;
+                expect(allowed!.result.name).equals("close");
+                expect(other).equals("hi");
+            });
+        });
+
+        it("should drop refused candidates within best", () => {
+            const { actions } = guardedActions();
+            const allowed = actions.allowed(guest);
+
+            return best(
+                tube(() => actions.scoredReference.close(.9), allowed),
+                tube(() => actions.scoredReference.greet(.5), allowed),
+            )()
+            .then(m => {
+                expect(m!.name).equals("greet");
+            });
+        });
+
+        it("should keep the guards of each when merged", () => {
+            const billing = declareActions({
+                refund: declareAction<[number]>(),
+            }, 'billing').implement((user: User) => ({
+                refund: (amount: number) => {},
+            }));
+
+            billing.guard({
+                refund: ([user]) => user.admin,
+            });
+
+            return rejects(ActionReferences.merge(billing).doAction(guest)(billing.reference.refund(1)), ForbiddenActionError);
+        });
+    });
 });
@@ -0,0 +1,325 @@
+import { expect, isNull, rejects } from './common';
+import { calibrator, rescore, boost, combine, dedupe, sameResult, maxScore, meanScore, noisyOrScore, weightedScore, InvalidScoreError, ActionReference, Scored, Sourced, best, sort, top, toArray, toArrayWith, tube } from '../src/prague';
+
+const scores = (results: Scored<any>[] | null) => results!.map(scored => [scored.result, Number(scored.score.toFixed(4))]);
+
+const sourcedScores = (results: any) => (results as Scored<Sourced<any>>[]).map(scored => [scored.result.result, scored.result.source, Number(scored.score.toFixed(4))]);
+
+describe("calibrator", () => {
+    it("should throw on an invalid range or outOfRange", () => {
+        expect(() => calibrator({ range: [100, 0] })).throws();
+        expect(() => calibrator({ outOfRange: 'ignore' as any })).throws();
+    });
+
+    it("should pass through a score from 0 to 1", () => {
+        expect(calibrator()(.5)).equals(.5);
+    });
+
+    it("should map the range onto 0 to 1", () => {
+        const percent = calibrator({ range: [0, 100] });
+        expect([0, 25, 100].map(percent)).deep.equals([0, .25, 1]);
+    });
+
+    it("should apply map after the range", () => {
+        const logistic = calibrator({ range: [-10, 10], map: score => score * score });
+        expect(logistic(0)).equals(.25);
+    });
+
+    it("should reject a score out of range", () => {
+        expect(() => calibrator()(1.5)).throws(InvalidScoreError, "invalid score 1.5, must be a number >= 0 and <= 1");
+        expect(() => calibrator({ range: [0, 100] })(-1)).throws(InvalidScoreError);
+    });
+
+    it("should clamp a score out of range", () => {
+        const clamp = calibrator({ range: [0, 100], outOfRange: 'clamp' });
+        expect([-10, 110].map(clamp)).deep.equals([0, 1]);
+    });
+
+    it("should reject a score which isn't a number, even when clamping", () => {
+        const clamp = calibrator({ outOfRange: 'clamp' });
+        expect(() => clamp(NaN)).throws(InvalidScoreError);
+        expect(() => clamp("1" as any)).throws(InvalidScoreError);
+    });
+});
+
+describe("rescore", () => {
+    const half = rescore(score => score / 2);
+
+    it("should rescore each element of an array", () =>
+        half([Scored.from("hi", .8), "hello"])
+            .then(m => {
+                expect(scores(m)).deep.equals([["hi", .4], ["hello", .5]]);
+            })
+    );
+
+    it("should rescore a single result", () =>
+        half(Scored.from("hi", .8))
+            .then(m => {
+                expect(m).instanceof(Scored);
+                expect(m!.score).equals(.4);
+            })
+    );
+
+    it("should return null for null", () =>
+        half(null)
+            .then(isNull)
+    );
+
+    it("should leave out results rescored to 0", () =>
+        rescore((score, result) => result === "hi" ? 0 : score)(["hi", "hello"])
+            .then(m => {
+                expect(scores(m)).deep.equals([["hello", 1]]);
+            })
+    );
+
+    it("should reject a new score out of range", () =>
+        rejects(rescore(score => score * 2)([Scored.from("hi", .8)]), InvalidScoreError)
+    );
+});
+
+describe("boost", () => {
+    it("should throw on a negative factor", () => {
+        expect(() => boost(-1, () => true)).throws();
+    });
+
+    it("should boost, capped at 1, and penalize", () =>
+        tube(
+            boost(1.5, result => result === "hi"),
+            boost(.5, result => result === "bye"),
+        )([Scored.from("hi", .8), Scored.from("hello", .6), Scored.from("bye", .6)])
+        .then(m => {
+            expect(scores(m as Scored<any>[])).deep.equals([["hi", 1], ["hello", .6], ["bye", .3]]);
+        })
+    );
+
+    it("should change which result is best", () => {
+        const expectingName = true;
+
+        return tube(
+            toArray(
+                () => Scored.from("time", .7),
+                () => Scored.from("name", .6),
+            ),
+            boost(1.25, result => expectingName && result === "name"),
+            sort(),
+            top(),
+        )()
+        .then(m => {
+            expect(scores(m)).deep.equals([["name", .75]]);
+        });
+    });
+});
+
+describe("ScoreCombiners", () => {
+    it("should combine scores", () => {
+        expect(maxScore([.5, .8, .2], [0, 1, 2])).equals(.8);
+        expect(meanScore([.5, .8, .2], [0, 1, 2])).equals(.5);
+        expect(noisyOrScore([.5, .5], [0, 1])).equals(.75);
+    });
+
+    it("should throw on invalid weights", () => {
+        expect(() => weightedScore([-1])).throws();
+        expect(() => weightedScore([0, 0])).throws();
+    });
+
+    it("should take a weighted mean over every source", () => {
+        const weighted = weightedScore([3, 1]);
+        expect(weighted([.8, .4], [0, 1])).closeTo(.7, 1e-9);
+        expect(weighted([.4], [1])).closeTo(.1, 1e-9);
+        expect(() => weighted([.4], [2])).throws("there is no weight for source 2");
+    });
+});
+
+describe("combine", () => {
+    it("should merge results which are the same, in the order each first appears", () =>
+        combine(maxScore)([
+            Scored.from("hi", .5),
+            Scored.from("bye", .4),
+            null,
+            Scored.from("hi", .8),
+        ])
+        .then(m => {
+            expect(scores(m)).deep.equals([["hi", .8], ["bye", .4]]);
+        })
+    );
+
+    it("should combine the scores of each source", () =>
+        tube(
+            toArray(
+                () => Scored.from("hi", .5),
+                () => Scored.from("hi", .5),
+                () => Scored.from("bye", .6),
+            ),
+            combine(noisyOrScore),
+            sort(),
+            top(),
+        )()
+        .then(m => {
+            expect(scores(m)).deep.equals([["hi", .75]]);
+        })
+    );
+
+    it("should pass sources to the combiner", () =>
+        combine(weightedScore([1, 1, 2]))([
+            Scored.from(new Sourced("hi", 0), .4),
+            null,
+            Scored.from(new Sourced("hi", 2), .8),
+        ])
+        .then(m => {
+            expect(sourcedScores(m)).deep.equals([["hi", [0, 2], .5]]);
+        })
+    );
+
+    it("should weight each result by the function which returned it, with toArrayWith({ sourced: true })", () =>
+        tube(
+            toArrayWith({ sourced: true })(
+                () => [Scored.from("hi", .4), Scored.from("bye", .2)],
+                () => null,
+                () => Scored.from("hi", .8),
+            ),
+            combine(weightedScore([1, 0, 1])),
+        )()
+        .then(m => {
+            expect(sourcedScores(m)).deep.equals([["hi", [0, 2], .6], ["bye", 0, .1]]);
+        })
+    );
+
+    it("should not shift weights when a function returns null", () =>
+        tube(
+            toArrayWith({ sourced: true })(
+                () => null,
+                () => Scored.from("hi", .5),
+            ),
+            combine(weightedScore([0, 1])),
+        )()
+        .then(m => {
+            expect(sourcedScores(m)).deep.equals([["hi", 1, .5]]);
+        })
+    );
+
+    it("should reject weighting a result which isn't Sourced", () =>
+        rejects(combine(weightedScore([1, 1]))([Scored.from("hi", .5)]))
+            .then(err => {
+                expect(err.message).equals("there is no weight for source undefined");
+            })
+    );
+
+    it("should use equals", () =>
+        combine(maxScore, { equals: (a: string, b: string) => a.toLowerCase() === b.toLowerCase() })([
+            Scored.from("Hi", .5),
+            Scored.from("hi", .8),
+        ])
+        .then(m => {
+            expect(scores(m)).deep.equals([["Hi", .8]]);
+        })
+    );
+
+    it("should return anything but an array as is", () =>
+        combine(maxScore)("hi")
+            .then(m => {
+                expect(m).equals("hi");
+            })
+    );
+
+    it("should reject a combined score out of range", () =>
+        rejects(combine(scores => scores.length)(["hi", "hi"]), InvalidScoreError)
+    );
+
+    it("should work within best", () =>
+        best(
+            () => Scored.from("hi", .5),
+            tube(
+                toArray(
+                    () => Scored.from("bye", .4),
+                    () => Scored.from("bye", .4),
+                ),
+                combine(noisyOrScore),
+                top(),
+            ),
+        )()
+        .then(m => {
+            expect(m).equals("bye");
+        })
+    );
+});
+
+describe("sameResult", () => {
+    it("should compare ActionReferences by name and args", () => {
+        expect(sameResult(new ActionReference("greet", { name: "bill" }, [1]), new ActionReference("greet", { name: "bill" }, [1]))).is.true;
+        expect(sameResult(new ActionReference("greet", "bill"), new ActionReference("greet", "ted"))).is.false;
+        expect(sameResult(new ActionReference("greet", "bill"), new ActionReference("bye", "bill"))).is.false;
+        expect(sameResult(new ActionReference("greet", { name: "bill" }), new ActionReference("greet", { name: "bill", age: 3 }))).is.false;
+        expect(sameResult(new ActionReference("greet", [1]), new ActionReference("greet", { 0: 1 }))).is.false;
+    });
+
+    it("should compare anything else with ===", () => {
+        expect(sameResult("hi", "hi")).is.true;
+        expect(sameResult({ a: 1 }, { a: 1 })).is.false;
+    });
+});
+
+describe("dedupe", () => {
+    const greet = (name: string) => new ActionReference("greet", name);
+
+    it("should collapse the same ActionReferences into one, keeping the highest score", () =>
+        dedupe()([
+            Scored.from(greet("bill"), .6),
+            Scored.from(greet("ted"), .7),
+            Scored.from(greet("bill"), .8),
+        ])
+        .then(m => {
+            expect(m.map(scored => [scored.result.args, scored.score])).deep.equals([[["bill"], .8], [["ted"], .7]]);
+        })
+    );
+
+    it("should use equals and merge", () =>
+        dedupe({
+            equals: (a: string, b: string) => a.toLowerCase() === b.toLowerCase(),
+            merge: noisyOrScore,
+        })([Scored.from("Hi", .5), Scored.from("hi", .5)])
+        .then(m => {
+            expect(scores(m)).deep.equals([["Hi", .75]]);
+        })
+    );
+
+    it("should keep the sources of Sourced results", () =>
+        dedupe()([
+            Scored.from(new Sourced(greet("bill"), "luis"), .6),
+            new Sourced(Scored.from(greet("bill"), .8), "regexp"),
+            Scored.from(new Sourced(greet("ted"), "luis"), .5),
+            Scored.from(greet("bill"), .7),
+        ])
+        .then(m => {
+            expect(m.length).equals(2);
+            expect(m[0].score).equals(.8);
+            expect(m[0].result).instanceof(Sourced);
+            expect(m[0].result.result.args).deep.equals(["bill"]);
+            expect(m[0].result.source).deep.equals(["luis", "regexp"]);
+            expect(m[1].result.source).equals("luis");
+        })
+    );
+
+    it("should leave ties to top only between different results", () =>
+        tube(
+            toArray(
+                () => Scored.from(greet("bill"), .8),
+                () => Scored.from(greet("bill"), .8),
+                () => Scored.from(greet("ted"), .5),
+            ),
+            dedupe(),
+            sort(),
+            top({ tolerance: .1 }),
+        )()
+        .then(m => {
+            expect(m.length).equals(1);
+            expect(m[0].result.args).deep.equals(["bill"]);
+        })
+    );
+
+    it("should return anything but an array as is", () =>
+        dedupe()("hi")
+            .then(m => {
+                expect(m).equals("hi");
+            })
+    );
+});
@@ -13,5 +13,19 @@ export const passErr = (err: Error) => {
     throw err;
 }
 
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const rejects = (promise: Promise<any>, errorClass?: Function) => promise.then(
+    () => {
+        throw new Error("expected rejection");
+    },
+    err => {
+        if (errorClass)
+            expect(err).instanceof(errorClass);
+
+        return err;
+    },
+);
+
 export const values = ["hi", 13, [1,2,3], () => {}];
 export const nullablevalues = [... values, null, undefined];
@@ -0,0 +1,223 @@
+import { expect, rejects, sleep } from './common';
+import { withContext, getContext, first, tube, toArray, best, Scored, AbortError, createAbortController } from '../src/prague';
+
+describe("withContext", () => {
+    it("should provide the context to the transform", () => {
+        const controller = createAbortController();
+
+        return withContext(
+            { signal: controller.signal },
+            () => getContext().signal,
+        )()
+        .then(m => {
+            expect(m).equals(controller.signal);
+        });
+    });
+
+    it("should pass through arguments", () =>
+        withContext(
+            {},
+            (a: string, b: number) => a.repeat(b),
+        )("hi", 2)
+        .then(m => {
+            expect(m).equals("hihi");
+        })
+    );
+
+    it("should restore the previous context after calling the transform", () => {
+        const controller = createAbortController();
+        const outer = getContext();
+
+        return withContext(
+            { signal: controller.signal },
+            () => "hi",
+        )()
+        .then(() => {
+            expect(getContext()).equals(outer);
+        });
+    });
+
+    it("should propagate the context across awaits in first", () => {
+        const controller = createAbortController();
+
+        return withContext(
+            { signal: controller.signal },
+            first(
+                () => Promise.resolve(null),
+                () => getContext().signal,
+            ),
+        )()
+        .then(m => {
+            expect(m).equals(controller.signal);
+        });
+    });
+
+    it("should propagate the context across awaits in tube", () => {
+        const controller = createAbortController();
+
+        return withContext(
+            { signal: controller.signal },
+            tube(
+                () => Promise.resolve("hi"),
+                () => getContext().signal,
+            ),
+        )()
+        .then(m => {
+            expect(m).equals(controller.signal);
+        });
+    });
+
+    it("should propagate the context to every transform in toArray", () => {
+        const controller = createAbortController();
+
+        return withContext(
+            { signal: controller.signal },
+            toArray(
+                () => Promise.resolve(getContext().signal),
+                () => getContext().signal,
+            ),
+        )()
+        .then(m => {
+            expect(m).deep.equals([controller.signal, controller.signal]);
+        });
+    });
+});
+
+describe("aborting", () => {
+    it("should reject immediately when already aborted", () => {
+        const controller = createAbortController();
+        controller.abort();
+
+        let called = false;
+
+        const transform = withContext(
+            { signal: controller.signal },
+            () => {
+                called = true;
+            },
+        );
+
+        return rejects(transform(), AbortError)
+            .then(() => {
+                expect(called).is.false;
+            });
+    });
+
+    it("should stop first from calling later transforms", () => {
+        const controller = createAbortController();
+        let called = false;
+
+        const transform = withContext(
+            { signal: controller.signal },
+            first(
+                () => {
+                    controller.abort();
+                    return null;
+                },
+                () => {
+                    called = true;
+                    return "hi";
+                },
+            ),
+        );
+
+        return rejects(transform(), AbortError)
+            .then(() => {
+                expect(called).is.false;
+            });
+    });
+
+    it("should stop tube from calling later transforms", () => {
+        const controller = createAbortController();
+        let called = false;
+
+        const transform = withContext(
+            { signal: controller.signal },
+            tube(
+                () => {
+                    controller.abort();
+                    return "hi";
+                },
+                () => {
+                    called = true;
+                },
+            ),
+        );
+
+        return rejects(transform(), AbortError)
+            .then(() => {
+                expect(called).is.false;
+            });
+    });
+
+    it("should stop toArray from waiting for in-flight transforms", () => {
+        const controller = createAbortController();
+
+        const p = withContext(
+            { signal: controller.signal },
+            toArray(
+                () => "hi",
+                () => new Promise(() => {}),
+            ),
+        )();
+
+        controller.abort();
+
+        return rejects(p, AbortError);
+    });
+
+    it("should stop best from waiting for in-flight transforms", () => {
+        const controller = createAbortController();
+
+        const p = withContext(
+            { signal: controller.signal },
+            best(
+                () => Scored.from("hi", .5),
+                () => new Promise(() => {}),
+            ),
+        )();
+
+        controller.abort();
+
+        return rejects(p, AbortError);
+    });
+});
+
+describe("createAbortController", () => {
+    const withoutAbortController = <T> (f: () => T) => {
+        const g = global as any;
+        const saved = g.AbortController;
+
+        delete g.AbortController;
+
+        try {
+            return f();
+        } finally {
+            g.AbortController = saved;
+        }
+    }
+
+    it("should create a stand-in where AbortController isn't global", () => {
+        let calls = 0;
+        const controller = withoutAbortController(createAbortController);
+
+        controller.signal.addEventListener('abort', () => calls++);
+        controller.abort();
+        controller.abort();
+
+        expect(controller.signal.aborted).is.true;
+        expect(calls).equals(1);
+    });
+
+    it("should abort a transform with the stand-in's signal", () => {
+        const controller = withoutAbortController(createAbortController);
+
+        const p = withContext({ signal: controller.signal }, first(
+            () => sleep(10),
+        ))();
+
+        controller.abort();
+
+        return rejects(p, AbortError);
+    });
+});
@@ -0,0 +1,180 @@
+import { expect } from './common';
+import { Coverage, formatCoverageReport, first, best, bestWith, match, matchIf, branch, named, re, ActionReferences, Scored } from '../src/prague';
+
+describe("Coverage", () => {
+    const actions = new ActionReferences(() => ({
+        greet(name: string) {
+        },
+        bye() {
+        },
+        confused() {
+        },
+    }));
+
+    const greeting = match(
+        re(/My name is (.*)/, 1),
+        actions.reference.greet,
+    );
+
+    const farewell = matchIf(
+        re(/bye/),
+        actions.reference.bye,
+        () => null,
+    );
+
+    const logic = named('logic', first(
+        greeting,
+        farewell,
+        actions.reference.confused,
+    ));
+
+    let coverage: Coverage;
+
+    beforeEach(() => {
+        coverage = new Coverage();
+        coverage.start();
+    });
+
+    afterEach(() => {
+        coverage.stop();
+    });
+
+    it("should report everything as unreached when nothing ran", () => {
+        const report = coverage.report(logic);
+
+        expect(report.unreachedBranches).deep.equals([
+            { path: "logic > match", branch: "onResult" },
+            { path: "logic > matchIf", branch: "onResult" },
+            { path: "logic > matchIf", branch: "onNull" },
+        ]);
+
+        expect(report.neverWinningAlternatives).deep.equals([
+            { path: "logic", index: 0, name: "match" },
+            { path: "logic", index: 1, name: "matchIf" },
+            { path: "logic", index: 2, name: "reference.confused" },
+        ]);
+
+        expect(report.unreferencedActions).deep.equals(["greet", "bye", "confused"]);
+    });
+
+    it("should report only what was never reached", () =>
+        logic("My name is Bill")
+            .then(() => logic("hello"))
+            .then(() => {
+                const report = coverage.report(logic);
+
+                expect(report.unreachedBranches).deep.equals([
+                    { path: "logic > matchIf", branch: "onResult" },
+                ]);
+
+                expect(report.neverWinningAlternatives).deep.equals([
+                    { path: "logic", index: 1, name: "matchIf" },
+                ]);
+
+                expect(report.unreferencedActions).deep.equals(["bye"]);
+            })
+    );
+
+    it("should not collect when stopped", () => {
+        coverage.stop();
+
+        return logic("My name is Bill")
+            .then(() => {
+                expect(coverage.report(logic).unreferencedActions).deep.equals(["greet", "bye", "confused"]);
+            });
+    });
+
+    it("should forget what it collected on clear", () =>
+        logic("My name is Bill")
+            .then(() => {
+                coverage.clear();
+                expect(coverage.report(logic).unreferencedActions).deep.equals(["greet", "bye", "confused"]);
+            })
+    );
+
+    it("should record branches of branch", () => {
+        const b = branch(
+            (a: string) => a,
+            () => "no",
+        );
+
+        return b("yes")
+            .then(() => {
+                expect(coverage.report(b).unreachedBranches).deep.equals([
+                    { path: "branch", branch: "onNull" },
+                ]);
+            });
+    });
+
+    it("should record which transform won best", () => {
+        const b = best(
+            () => Scored.from("hi", .5),
+            () => Scored.from("hello", .75),
+            function never () { return null; },
+        );
+
+        return b()
+            .then(m => {
+                expect(m).equals("hello");
+                expect(coverage.report(b).neverWinningAlternatives).deep.equals([
+                    { path: "best", index: 0, name: "anonymous" },
+                    { path: "best", index: 2, name: "never" },
+                ]);
+            });
+    });
+
+    it("should record an unscored winner of best", () => {
+        const b = best(
+            () => "hi",
+            () => Scored.from("lo", .2),
+        );
+
+        return b()
+            .then(m => {
+                expect(m).equals("hi");
+                expect(coverage.report(b).neverWinningAlternatives).deep.equals([
+                    { path: "best", index: 1, name: "anonymous" },
+                ]);
+            });
+    });
+
+    it("should record which transform won best, after dedupe", () => {
+        const b = bestWith({ dedupe: true })(
+            () => Scored.from("hi", .5),
+            function hello () { return Scored.from({ text: "hello" }, .75); },
+        );
+
+        return b()
+            .then(m => {
+                expect(m).deep.equals({ text: "hello" });
+                expect(coverage.report(b).neverWinningAlternatives).deep.equals([
+                    { path: "best", index: 0, name: "anonymous" },
+                ]);
+            });
+    });
+
+    it("should format a report as text", () => {
+        expect(formatCoverageReport(coverage.report(logic)).split('\n')).deep.equals([
+            "Branches never reached:",
+            "  logic > match: onResult",
+            "  logic > matchIf: onResult",
+            "  logic > matchIf: onNull",
+            "Alternatives which never won:",
+            "  logic: #0 match",
+            "  logic: #1 matchIf",
+            "  logic: #2 reference.confused",
+            "Actions never referenced:",
+            "  greet",
+            "  bye",
+            "  confused",
+        ]);
+    });
+
+    it("should format a full report as text", () => {
+        expect(formatCoverageReport({
+            unreachedBranches: [],
+            neverWinningAlternatives: [],
+            unreferencedActions: [],
+        })).equals("Every rule was covered.");
+    });
+});
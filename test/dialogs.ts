@@ -0,0 +1,150 @@
+import { expect, isNull, rejects } from './common';
+import { Dialogs, DialogsState, activeDialog, ConversationStates, ActionReferences, first, match, matchIf, re, tube } from '../src/prague';
+
+interface State extends DialogsState {
+    name?: string;
+}
+
+interface AskName {
+    attempts: number;
+}
+
+describe("Dialogs", () => {
+    const dialogs = new Dialogs<string>()
+        .add('askName', (text: string, state: AskName) => `askName ${text} ${state.attempts}`)
+        .add('confirm', () => null);
+
+    const root = (text: string, state: State) => `root ${text}`;
+    const route = dialogs.route(root);
+
+    it("should throw when pushing an unknown dialog", () => {
+        expect(() => dialogs.push('nope', {})).throws();
+    });
+
+    it("should push a dialog with its state", () => {
+        const state = dialogs.push('askName', { attempts: 0 })({} as State);
+        expect(state.dialogs).deep.equals([{ name: 'askName', state: { attempts: 0 } }]);
+        expect(activeDialog(state)).deep.equals({ name: 'askName', state: { attempts: 0 } });
+    });
+
+    it("should keep the rest of the conversation state", () => {
+        const state = dialogs.push('askName', { attempts: 0 })({ name: "Bill" } as State);
+        expect(state.name).equals("Bill");
+    });
+
+    it("should pop the active dialog", () => {
+        const state = dialogs.pop()(
+            dialogs.push('confirm', {})(
+                dialogs.push('askName', { attempts: 0 })({} as State)
+            )
+        );
+
+        expect(activeDialog(state)).deep.equals({ name: 'askName', state: { attempts: 0 } });
+    });
+
+    it("should update the state of the active dialog", () => {
+        const state = dialogs.update((s: AskName) => ({ attempts: s.attempts + 1 }))(
+            dialogs.push('askName', { attempts: 0 })({} as State)
+        );
+
+        expect(activeDialog(state)).deep.equals({ name: 'askName', state: { attempts: 1 } });
+    });
+
+    it("should not update anything when there is no active dialog", () => {
+        const state = {} as State;
+        expect(dialogs.update((s: AskName) => s)(state)).equals(state);
+    });
+
+    it("should route to the root rules when there is no active dialog", () =>
+        route("hi", {})
+            .then(m => {
+                expect(m).equals("root hi");
+            })
+    );
+
+    it("should route to the active dialog with its state", () =>
+        route("hi", dialogs.push('askName', { attempts: 2 })({} as State))
+            .then(m => {
+                expect(m).equals("askName hi 2");
+            })
+    );
+
+    it("should fall back to the root rules when the active dialog returns null", () =>
+        route("hi", dialogs.push('confirm', {})({} as State))
+            .then(m => {
+                expect(m).equals("root hi");
+            })
+    );
+
+    it("should throw when the active dialog is unknown", () =>
+        rejects(route("hi", { dialogs: [{ name: 'nope', state: {} }] }))
+            .then(err => {
+                expect(err.message).equals("unknown dialog nope");
+            })
+    );
+});
+
+describe("a multi-turn dialog", () => {
+    const sent: string[] = [];
+    const dialogs = new Dialogs<string>();
+
+    const actions = new ActionReferences(() => ({
+        askName() {
+            sent.push("What's your name?");
+            return dialogs.push('askName', { attempts: 0 });
+        },
+        greet(name: string) {
+            sent.push(`Nice to meet you, ${name}`);
+            return [
+                dialogs.pop(),
+                (state: State) => ({ ... state, name }),
+            ];
+        },
+        reprompt() {
+            sent.push("Please tell me your name.");
+            return dialogs.update((state: AskName) => ({ attempts: state.attempts + 1 }));
+        },
+        giveUp() {
+            sent.push("Never mind.");
+            return dialogs.pop();
+        },
+        default() {
+            sent.push("I didn't understand that.");
+        },
+    }));
+
+    dialogs.add('askName', (text: string, state: AskName) => first(
+        match(re(/^(\w+)$/, 1), actions.reference.greet),
+        matchIf(() => state.attempts >= 1, actions.reference.giveUp),
+        actions.reference.reprompt,
+    )(text));
+
+    const botLogic = dialogs.route((text: string, state: State) => first(
+        matchIf(re(/hello/i), actions.reference.askName),
+        actions.reference.default,
+    )(text));
+
+    const states = new ConversationStates<State>({});
+
+    const say = (text: string) => states.turn('test', state => tube(
+        botLogic,
+        actions.doAction(),
+    )(text, state));
+
+    it("should ask, validate, re-prompt, and finish", () =>
+        say("hello")
+            .then(() => say("my name is Bill"))
+            .then(() => say("Bill"))
+            .then(() => say("what?"))
+            .then(state => {
+                expect(sent).deep.equals([
+                    "What's your name?",
+                    "Please tell me your name.",
+                    "Nice to meet you, Bill",
+                    "I didn't understand that.",
+                ]);
+                expect(state.name).equals("Bill");
+                isNull(activeDialog(state));
+            })
+    );
+});
@@ -0,0 +1,222 @@
+import { expect, isNull, rejects } from './common';
+import { disambiguate, resolveDisambiguation, Candidate, DisambiguationState, Dialogs, DialogsState, activeDialog, ConversationStates, ActionReference, ActionReferences, Scored, first, match, matchIf, re, sort, top, toArray, tube } from '../src/prague';
+
+const ask = (candidates: Candidate[]) => new ActionReference('ask', candidates);
+
+describe("disambiguate", () => {
+    it("should return null when there are no results", () =>
+        disambiguate(ask)(null)
+            .then(isNull)
+    );
+
+    it("should return a single result, unwrapped", () =>
+        disambiguate(ask)(Scored.from(new ActionReference('time'), .8))
+            .then(m => {
+                expect(m).instanceof(ActionReference);
+                expect(m.name).equals('time');
+            })
+    );
+
+    it("should return the only result in an array, unwrapped", () =>
+        disambiguate(ask)([Scored.from(new ActionReference('time'), .8)])
+            .then(m => {
+                expect(m.name).equals('time');
+            })
+    );
+
+    it("should ask about more than one result", () =>
+        disambiguate(ask)([
+            Scored.from(new ActionReference('time'), .8),
+            Scored.from(new ActionReference('setName', "Bill"), .8),
+        ])
+        .then(m => {
+            expect(m.name).equals('ask');
+            expect(m.args).deep.equals([[
+                { name: 'time', args: [], names: ['time'] },
+                { name: 'setName', args: ["Bill"], names: ['setName'] },
+            ]]);
+        })
+    );
+
+    it("should describe the candidates", () =>
+        disambiguate(ask, {
+            describe: reference => reference.name === 'time'
+                ? ["asking the time", "time", "clock"]
+                : "telling me your name",
+        })([
+            new ActionReference('time'),
+            new ActionReference('setName', "Bill"),
+        ])
+        .then(m => {
+            expect(m.args[0].map((candidate: Candidate) => candidate.names)).deep.equals([
+                ["asking the time", "time", "clock"],
+                ["telling me your name"],
+            ]);
+        })
+    );
+
+    it("should reject when the results aren't ActionReferences", () =>
+        rejects(disambiguate(ask)(["hi", "hello"]))
+            .then(err => {
+                expect(err.message).equals("disambiguate can only choose between ActionReferences");
+            })
+    );
+});
+
+describe("resolveDisambiguation", () => {
+    const dialogs = new Dialogs<string>();
+
+    const resolve = resolveDisambiguation(dialogs, {
+        fallback: state => new ActionReference('askAgain', state.candidates.length),
+    });
+
+    const state: DisambiguationState = {
+        candidates: [
+            { name: 'time', args: [], names: ["the time", "clock"] },
+            { name: 'setName', args: ["Bill"], names: ["your name"] },
+            { name: 'weather', args: [], names: ["the weather"] },
+        ],
+    };
+
+    dialogs.add('disambiguate', resolve);
+
+    const reply = (text: string) => new ConversationStates<DialogsState>({})
+        .turn('test', s => tube(
+            (text: string) => resolve(text, state),
+            result => (s: DialogsState) => ({ ... s, result } as DialogsState),
+        )(text))
+        .then(s => s as DialogsState & { result: any });
+
+    it("should throw outside of a turn", () =>
+        rejects(resolve("the first one", state))
+            .then(err => {
+                expect(err.message).equals("updateState must be called during ConversationStates.turn");
+            })
+    );
+
+    it("should choose by ordinal", () =>
+        Promise.all(["the second one", "2", "last"].map(reply))
+            .then(ss => {
+                expect(ss.map(s => s.result.name)).deep.equals(['setName', 'setName', 'weather']);
+                expect(ss[0].result).instanceof(ActionReference);
+                expect(ss[0].result.args).deep.equals(["Bill"]);
+            })
+    );
+
+    it("should choose by name or synonym", () =>
+        Promise.all(["The weather!", "look at the clock"].map(reply))
+            .then(ss => {
+                expect(ss.map(s => s.result.name)).deep.equals(['weather', 'time']);
+            })
+    );
+
+    it("should pop the dialog once it chooses", () =>
+        new ConversationStates<DialogsState>(dialogs.push('disambiguate', state)({}))
+            .turn('test', () => resolve("the time", state))
+            .then(s => {
+                isNull(activeDialog(s) || null);
+            })
+    );
+
+    it("should return the fallback when the reply is still ambiguous", () =>
+        reply("the time or the weather")
+            .then(s => {
+                expect(s.result.name).equals('askAgain');
+                expect(s.result.args).deep.equals([3]);
+            })
+    );
+
+    it("should not pop the dialog when the reply is still ambiguous", () =>
+        new ConversationStates<DialogsState>(dialogs.push('disambiguate', state)({}))
+            .turn('test', () => resolve("the time or the weather", state))
+            .then(s => {
+                expect(activeDialog(s)).deep.equals({ name: 'disambiguate', state });
+            })
+    );
+
+    it("should pop the dialog and return null when the reply refers to none of them", () =>
+        new ConversationStates<DialogsState>(dialogs.push('disambiguate', state)({}))
+            .turn('test', () => tube(
+                (text: string) => resolve(text, state),
+                result => {
+                    isNull(result);
+                    return null;
+                },
+            )("never mind"))
+            .then(s => {
+                expect(s.dialogs).deep.equals([]);
+            })
+    );
+});
+
+describe("a disambiguation flow", () => {
+    const sent: string[] = [];
+    const dialogs = new Dialogs<string>();
+
+    const describeAction = (reference: ActionReference) => reference.name === 'time'
+        ? ["asking the time", "time"]
+        : ["telling me your name", "name"];
+
+    const actions = new ActionReferences(() => ({
+        time() {
+            sent.push("It's noon.");
+        },
+        setName(name: string) {
+            sent.push(`Hi, ${name}`);
+        },
+        ask(candidates: Candidate[]) {
+            sent.push(`Are you ${candidates.map(candidate => candidate.names[0]).join(", or ")}?`);
+            return dialogs.push('disambiguate', { candidates });
+        },
+        askAgain() {
+            sent.push("Which one?");
+        },
+        default() {
+            sent.push("I didn't understand that.");
+        },
+    }));
+
+    dialogs.add('disambiguate', resolveDisambiguation(dialogs, {
+        fallback: () => actions.reference.askAgain(),
+    }));
+
+    const botLogic = dialogs.route((text: string) => first(
+        tube(
+            toArray(
+                matchIf(re(/time/i), () => actions.scoredReference.time(.8)),
+                match(re(/I am (\w+)/i, 1), name => actions.scoredReference.setName(.8, name)),
+            ),
+            sort(),
+            top(),
+            disambiguate(actions.reference.ask, { describe: describeAction }),
+        ),
+        actions.reference.default,
+    )(text));
+
+    const states = new ConversationStates<DialogsState>({});
+
+    const say = (text: string) => states.turn('test', state => tube(
+        botLogic,
+        actions.doAction(),
+    )(text, state));
+
+    it("should ask, re-ask when still ambiguous, and then run the chosen action", () =>
+        say("what time is it? I am Bill")
+            .then(() => say("both"))
+            .then(() => say("what time is it? I am Bill"))
+            .then(() => say("asking the time or telling me my name"))
+            .then(() => say("the second one"))
+            .then(() => say("hmm"))
+            .then(state => {
+                expect(sent).deep.equals([
+                    "Are you asking the time, or telling me your name?",
+                    "I didn't understand that.",
+                    "Are you asking the time, or telling me your name?",
+                    "Which one?",
+                    "Hi, Bill",
+                    "I didn't understand that.",
+                ]);
+                isNull(activeDialog(state) || null);
+            })
+    );
+});
@@ -0,0 +1,218 @@
+import { expect, throwErr, rejects } from './common';
+import { PragueError, AbortError, TimeoutError, UnknownActionError, FetchError, InvalidScoreError, Err, toErr, mapErr, isRecoverable, tube, pipe, top, sort, best, Scored, ActionReference, ActionReferences, getFetchJson } from '../src/prague';
+
+describe("PragueError", () => {
+    it("should be named after its subclass", () => {
+        const error = new UnknownActionError("greeting");
+        expect(error).instanceof(PragueError);
+        expect(error).instanceof(Error);
+        expect(error.name).equals("UnknownActionError");
+        expect(error.action).equals("greeting");
+        expect(error.message).equals("unknown action greeting");
+    });
+
+    it("should be the base of AbortError and TimeoutError", () => {
+        expect(new AbortError()).instanceof(PragueError);
+        expect(new TimeoutError()).instanceof(PragueError);
+    });
+
+    it("should treat only AbortError and TimeoutError as unrecoverable", () => {
+        expect(isRecoverable(new AbortError())).is.false;
+        expect(isRecoverable(new TimeoutError())).is.false;
+        expect(isRecoverable(new FetchError("oops", 500, ""))).is.true;
+        expect(isRecoverable("oops")).is.true;
+    });
+});
+
+describe("UnknownActionError", () => {
+    it("should be thrown by doAction for an unknown action", () => {
+        const actions = new ActionReferences(() => ({
+            greeting: () => "hi",
+        }));
+
+        return rejects(tube(
+            () => new ActionReference("farewell"),
+            actions.doAction(),
+        )())
+        .then(err => {
+            expect(err).instanceof(UnknownActionError);
+            expect(err.action).equals("farewell");
+        });
+    });
+});
+
+describe("FetchError", () => {
+    const response = (status: number, body: string) => ({
+        ok: false,
+        status,
+        text: () => Promise.resolve(body),
+    } as any as Response);
+
+    it("should be thrown by getFetchJson with the status and body", () =>
+        rejects(Promise.resolve(getFetchJson(undefined)(response(404, "not here"))))
+        .then(err => {
+            expect(err).instanceof(FetchError);
+            expect(err.message).equals("the fetch returned an error");
+            expect(err.status).equals(404);
+            expect(err.body).equals("not here");
+        })
+    );
+
+    it("should use a message created from the body", () =>
+        rejects(Promise.resolve(getFetchJson(body => `failed: ${body}`)(response(500, "down"))))
+        .then(err => {
+            expect(err).instanceof(FetchError);
+            expect(err.message).equals("failed: down");
+            expect(err.status).equals(500);
+        })
+    );
+});
+
+describe("InvalidScoreError", () => {
+    it("should be thrown by Scored.from for a negative score", () => {
+        expect(() => Scored.from("hi", -.5)).throws(InvalidScoreError);
+    });
+
+    it("should be thrown by Scored.from for NaN", () => {
+        expect(() => Scored.from("hi", NaN)).throws(InvalidScoreError);
+    });
+
+    it("should be thrown by Scored.from for a score which isn't a number", () => {
+        expect(() => Scored.from("hi", "bill" as unknown as number)).throws(InvalidScoreError);
+    });
+
+    it("should still cap scores above 1", () => {
+        expect(Scored.from("hi", 2).score).equals(1);
+    });
+});
+
+describe("top", () => {
+    it("should throw a PragueError when not called on Array of Scored", () =>
+        rejects(top()(["hi"] as any))
+        .then(err => {
+            expect(err).instanceof(PragueError);
+        })
+    );
+});
+
+describe("Err.unwrap", () => {
+    it("should throw the error of an Err", () => {
+        expect(() => Err.unwrap(new Err("oops"))).throws("oops");
+    });
+
+    it("should return anything else", () => {
+        expect(Err.unwrap("hi")).equals("hi");
+    });
+});
+
+describe("toErr", () => {
+    it("should return the result of a transform which doesn't throw", () =>
+        toErr(
+            (a: string) => a,
+        )("hi")
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should return an Err of the error a transform throws", () =>
+        toErr(
+            () => {
+                throw "oops";
+            },
+        )()
+        .then(m => {
+            expect(m).instanceof(Err);
+            expect((m as Err).error).equals("oops");
+        })
+    );
+
+    it("should still throw an AbortError", () =>
+        rejects(toErr(
+            () => {
+                throw new AbortError();
+            },
+        )())
+        .then(err => {
+            expect(err).instanceof(AbortError);
+        })
+    );
+});
+
+describe("mapErr", () => {
+    it("should run the handler on the error of an Err", () =>
+        mapErr(
+            error => `caught ${error}`,
+        )(new Err("oops"))
+        .then(m => {
+            expect(m).equals("caught oops");
+        })
+    );
+
+    it("should pass anything else along unchanged", () =>
+        mapErr(
+            throwErr,
+        )("hi")
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+});
+
+describe("Err in tube and pipe", () => {
+    it("tube should stop at an Err and return it", () => {
+        let called = false;
+
+        return tube(
+            toErr(throwErr),
+            () => {
+                called = true;
+            },
+        )()
+        .then(m => {
+            expect(m).instanceof(Err);
+            expect(called).is.false;
+        });
+    });
+
+    it("pipe should pass an Err along", () =>
+        pipe(
+            toErr(() => {
+                throw "oops";
+            }),
+            mapErr(error => `caught ${error}`),
+        )()
+        .then(m => {
+            expect(m).equals("caught oops");
+        })
+    );
+});
+
+describe("Err in sort and best", () => {
+    it("sort should put an Err last", () =>
+        sort<any[]>()([new Err("oops"), Scored.from("hi", .5)])
+            .then(m => {
+                expect(m.map(scored => scored.result)).deep.equals(["hi", new Err("oops")]);
+            })
+    );
+
+    it("best should not pick an Err over a result", () =>
+        best(
+            toErr(throwErr),
+            () => Scored.from("ok", .9),
+        )()
+        .then(m => {
+            expect(m).equals("ok");
+        })
+    );
+
+    it("best should return an Err when there's nothing else", () =>
+        best(
+            toErr(throwErr),
+            () => null,
+        )()
+        .then(m => {
+            expect(m).instanceof(Err);
+        })
+    );
+});
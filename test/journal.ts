@@ -0,0 +1,178 @@
+import { expect, rejects } from './common';
+import { Journal, JournalState, Compensation, ActionReference, ActionReferences, ActionBatch, ConversationStates, first, matchIf, re, sequence, tube } from '../src/prague';
+
+interface State extends JournalState {
+    open: boolean;
+    count: number;
+}
+
+const setup = (maxEntries?: number) => {
+    const sent: string[] = [];
+
+    const actions = new ActionReferences(() => ({
+        open() {
+            sent.push("open");
+            return (state: State) => ({ ... state, open: true });
+        },
+        close() {
+            sent.push("close");
+            return (state: State) => ({ ... state, open: false });
+        },
+        add(n: number) {
+            sent.push(`add ${n}`);
+            return (state: State) => ({ ... state, count: state.count + n });
+        },
+        greet() {
+            sent.push("hi");
+        },
+        nothingToUndo() {
+            sent.push("nothing to undo");
+        },
+    }));
+
+    actions.compensate({
+        open: () => actions.reference.close(),
+        close: () => actions.reference.open(),
+        add: n => actions.reference.add(-n),
+    });
+
+    const journal = new Journal(actions, { maxEntries });
+
+    actions.use(journal.record);
+
+    const botLogic = (text: string, state: State) => first(
+        matchIf(re(/never mind/i), () => journal.undo()(state)),
+        matchIf(re(/undo twice/i), () => journal.undo(2)(state)),
+        matchIf(re(/never mind|undo/i), () => actions.reference.nothingToUndo()),
+        matchIf(re(/open/i), () => actions.reference.open()),
+        matchIf(re(/close/i), () => actions.reference.close()),
+        matchIf(re(/add/i), () => sequence(actions.reference.add(1), actions.reference.add(2))),
+        () => actions.reference.greet(),
+    )(text);
+
+    const states = new ConversationStates<State>({ open: true, count: 0 });
+
+    const say = (text: string) => states.turn('test', state => tube(
+        botLogic,
+        actions.doAction(),
+    )(text, state));
+
+    return { sent, actions, journal, say };
+}
+
+describe("ActionReferences.compensate", () => {
+    it("should create the compensation of an action", () => {
+        const { actions } = setup();
+        const compensation = actions.compensationOf(actions.reference.add(3))!;
+        expect(compensation.name).equals("add");
+        expect(compensation.args).deep.equals([-3]);
+    });
+
+    it("should return null for an action without a compensation", () => {
+        const { actions } = setup();
+        expect(actions.compensationOf(actions.reference.greet())).is.null;
+    });
+});
+
+describe("Journal", () => {
+    it("should throw on maxEntries < 1", () => {
+        expect(() => new Journal(setup().actions, { maxEntries: 0 })).throws();
+    });
+
+    it("should throw on count < 1", () => {
+        expect(() => setup().journal.undo(0)).throws();
+    });
+
+    it("should record the actions which have compensations", () => {
+        const { say } = setup();
+
+        return say("close")
+            .then(() => say("hello"))
+            .then(state => {
+                expect(state.open).is.false;
+                expect(state.journal).deep.equals([{
+                    action: { name: "close", args: [] },
+                    compensation: { name: "open", args: [] },
+                }]);
+            });
+    });
+
+    it("should record each action of an ActionBatch", () =>
+        setup().say("add")
+            .then(state => {
+                expect(state.count).equals(3);
+                expect(state.journal!.map(entry => entry.compensation.args)).deep.equals([[-1], [-2]]);
+            })
+    );
+
+    it("should undo the last action, and forget it", () => {
+        const { sent, say } = setup();
+
+        return say("close")
+            .then(() => say("never mind"))
+            .then(state => {
+                expect(sent).deep.equals(["close", "open"]);
+                expect(state.open).is.true;
+                expect(state.journal).deep.equals([]);
+            });
+    });
+
+    it("should undo the last N actions, most recent first", () => {
+        const { sent, say } = setup();
+
+        return say("close")
+            .then(() => say("add"))
+            .then(() => say("never mind"))
+            .then(() => say("undo twice"))
+            .then(state => {
+                expect(sent).deep.equals(["close", "add 1", "add 2", "add -2", "add -1", "open"]);
+                expect(state).deep.equals({ open: true, count: 0, journal: [] });
+            });
+    });
+
+    it("should return null when there is nothing to undo", () => {
+        const { sent, say } = setup();
+
+        return say("never mind")
+            .then(() => {
+                expect(sent).deep.equals(["nothing to undo"]);
+            });
+    });
+
+    it("should keep at most maxEntries", () => {
+        const { say } = setup(2);
+
+        return say("close")
+            .then(() => say("open"))
+            .then(() => say("close"))
+            .then(state => {
+                expect(state.journal!.map(entry => entry.action.name)).deep.equals(["open", "close"]);
+            });
+    });
+
+    it("should reject outside of a turn", () => {
+        const state = { journal: [{
+            action: { name: "close", args: [] },
+            compensation: { name: "open", args: [] },
+        }] };
+
+        return rejects(setup().journal.undo()(state))
+            .then(err => {
+                expect(err.message).equals("updateState must be called during ConversationStates.turn");
+            });
+    });
+
+    it("should return a sequence of Compensations", () =>
+        new ConversationStates<State>({ open: false, count: 0, journal: [{
+            action: { name: "close", args: [] },
+            compensation: { name: "open", args: [] },
+        }] })
+        .turn('test', state => setup().journal.undo()(state)
+            .then(m => {
+                expect(m).instanceof(ActionBatch);
+                expect(m!.actions[0]).instanceof(Compensation);
+                expect(m!.actions[0]).instanceof(ActionReference);
+            })
+        )
+    );
+});
@@ -0,0 +1,228 @@
+import { expect, isNull, sleep } from './common';
+import { memoize, cacheScope, first, toArray, match, timeout } from '../src/prague';
+
+const counter = () => {
+    const calls: any[][] = [];
+
+    return {
+        calls,
+        transform: (...args: any[]) => {
+            calls.push(args);
+            return `${args[0]} ${calls.length}`;
+        },
+    };
+}
+
+describe("memoize", () => {
+    it("should throw on ttl <= 0", () => {
+        expect(() => memoize(() => "hi", { ttl: 0 })).throws();
+    });
+
+    it("should throw on maxSize < 1", () => {
+        expect(() => memoize(() => "hi", { maxSize: 0 })).throws();
+    });
+
+    it("should call the transform once for the same argument", () => {
+        const c = counter();
+        const m = memoize(c.transform);
+
+        return m("hi")
+            .then(() => m("hi"))
+            .then(r => {
+                expect(r).equals("hi 1");
+                expect(c.calls.length).equals(1);
+            });
+    });
+
+    it("should call the transform again for a different argument", () => {
+        const c = counter();
+        const m = memoize(c.transform);
+
+        return m("hi")
+            .then(() => m("bye"))
+            .then(r => {
+                expect(r).equals("bye 2");
+            });
+    });
+
+    it("should keep calls with different numbers of arguments apart", () => {
+        const m = memoize((...args: any[]) => args.length);
+
+        return m("[1,2]")
+            .then(() => m(1, 2))
+            .then(r => {
+                expect(r).equals(2);
+            });
+    });
+
+    it("should share a call which hasn't finished yet", () => {
+        let calls = 0;
+        const m = memoize((a: string) => sleep(5).then(() => ++calls));
+
+        return Promise.all([m("hi"), m("hi")])
+            .then(rs => {
+                expect(rs).deep.equals([1, 1]);
+            });
+    });
+
+    it("should remember null", () => {
+        let calls = 0;
+        const m = memoize((a: string) => {
+            calls++;
+            return null;
+        });
+
+        return m("hi")
+            .then(() => m("hi"))
+            .then(r => {
+                isNull(r);
+                expect(calls).equals(1);
+            });
+    });
+
+    it("should not remember errors", () => {
+        let calls = 0;
+        const m = memoize((a: string) => {
+            if (++calls === 1)
+                throw new Error();
+            return calls;
+        });
+
+        return m("hi")
+            .catch(() => m("hi"))
+            .then(r => {
+                expect(r).equals(2);
+            });
+    });
+
+    it("should not remember a result cut short by the caller's deadline", () => {
+        let calls = 0;
+        const m = memoize((a: string) => sleep(20).then(() => `${a} ${++calls}`));
+
+        return timeout(5, m)("hi")
+            .then(r => {
+                expect(r).is.null;
+                return m("hi");
+            })
+            .then(r => {
+                expect(r).equals("hi 1");
+                expect(calls).equals(1);
+            });
+    });
+
+    it("should apply each caller's deadline to a remembered call", () => {
+        const m = memoize((a: string) => sleep(20).then(() => a));
+
+        return Promise.all([timeout(5, m)("hi"), m("hi")])
+            .then(rs => {
+                expect(rs).deep.equals([null, "hi"]);
+            });
+    });
+
+    it("should use the key function", () => {
+        const c = counter();
+        const m = memoize(c.transform, { key: (a: string) => a.toLowerCase() });
+
+        return m("hi")
+            .then(() => m("HI"))
+            .then(r => {
+                expect(r).equals("hi 1");
+            });
+    });
+
+    it("should key multiple arguments by JSON", () => {
+        const c = counter();
+        const m = memoize(c.transform);
+
+        return m("hi", { a: 1 })
+            .then(() => m("hi", { a: 1 }))
+            .then(() => m("hi", { a: 2 }))
+            .then(() => {
+                expect(c.calls.length).equals(2);
+            });
+    });
+
+    it("should forget results after ttl", () => {
+        const c = counter();
+        const m = memoize(c.transform, { ttl: 5 });
+
+        return m("hi")
+            .then(() => sleep(10))
+            .then(() => m("hi"))
+            .then(r => {
+                expect(r).equals("hi 2");
+            });
+    });
+
+    it("should evict the least recently used result beyond maxSize", () => {
+        const c = counter();
+        const m = memoize(c.transform, { maxSize: 2 });
+
+        return m("a")
+            .then(() => m("b"))
+            .then(() => m("a"))
+            .then(() => m("c"))
+            .then(() => m("a"))
+            .then(() => m("b"))
+            .then(() => {
+                expect(c.calls.map(args => args[0])).deep.equals(["a", "b", "c", "b"]);
+            });
+    });
+});
+
+describe("cacheScope", () => {
+    it("should call an evaluation-scoped transform once within a scope", () => {
+        const c = counter();
+        const m = memoize(c.transform, { scope: 'evaluation' });
+
+        return cacheScope(
+            toArray(m, m, m),
+        )("hi")
+        .then(r => {
+            expect(r).deep.equals(["hi 1", "hi 1", "hi 1"]);
+            expect(c.calls.length).equals(1);
+        });
+    });
+
+    it("should share results among branches", () => {
+        const c = counter();
+        const recognize = memoize(c.transform, { scope: 'evaluation' });
+
+        return cacheScope(
+            first(
+                match(
+                    recognize,
+                    () => null,
+                ),
+                recognize,
+            ),
+        )("hi")
+        .then(r => {
+            expect(r).equals("hi 1");
+            expect(c.calls.length).equals(1);
+        });
+    });
+
+    it("should drop the cache between calls", () => {
+        const c = counter();
+        const m = memoize(c.transform, { scope: 'evaluation' });
+        const scoped = cacheScope(m);
+
+        return scoped("hi")
+            .then(() => scoped("hi"))
+            .then(r => {
+                expect(r).equals("hi 2");
+            });
+    });
+
+    it("should not cache an evaluation-scoped transform outside a scope", () => {
+        const c = counter();
+        const m = memoize(c.transform, { scope: 'evaluation' });
+
+        return m("hi")
+            .then(() => m("hi"))
+            .then(r => {
+                expect(r).equals("hi 2");
+            });
+    });
+});
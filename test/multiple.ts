@@ -1,5 +1,5 @@
-import { expect, isNull } from './common';
-import { toArray, fromArray, Scored } from '../src/prague';
+import { expect, isNull, sleep } from './common';
+import { toArray, toArrayWith, fromArray, Scored, Sourced } from '../src/prague';
 
 export const matches = [
     Scored.from("hello", .75),
@@ -100,4 +100,82 @@ describe("fromArray", () => {
             expect(m).equals(13);
         })
     );
-});
\ No newline at end of file
+});
+
+describe("toArrayWith", () => {
+    it("should throw on concurrency < 1", () => {
+        expect(() => toArrayWith({ concurrency: 0 })).throws();
+    });
+
+    it("should run at most concurrency functions at once", () => {
+        let running = 0;
+        let maxRunning = 0;
+
+        const slow = (result: number) => () => {
+            maxRunning = Math.max(maxRunning, ++running);
+
+            return sleep(5).then(() => {
+                running--;
+                return result;
+            });
+        }
+
+        return toArrayWith({ concurrency: 2 })(
+            slow(1),
+            slow(2),
+            slow(3),
+            slow(4),
+            slow(5),
+        )()
+        .then(m => {
+            expect(m).deep.equals([1, 2, 3, 4, 5]);
+            expect(maxRunning).equals(2);
+        });
+    });
+
+    it("should keep results in the order of the functions", () =>
+        toArrayWith({ concurrency: 2 })(
+            () => sleep(10).then(() => "slow"),
+            () => "fast",
+            () => null,
+            () => "last",
+        )()
+        .then(m => {
+            expect(m).deep.equals(["slow", "fast", "last"]);
+        })
+    );
+
+    it("should not start more functions after one throws", () => {
+        let started = 0;
+
+        return toArrayWith({ concurrency: 1 })(
+            () => {
+                started++;
+                throw new Error();
+            },
+            () => {
+                started++;
+            },
+        )()
+        .catch(() => {
+            expect(started).equals(1);
+        });
+    });
+
+    it("should wrap each result in a Sourced with the index of its function, with sourced", () =>
+        toArrayWith({ sourced: true })(
+            () => null,
+            () => [Scored.from("hi", .5), null, "hello"],
+            () => "bye",
+        )()
+        .then((m: any[]) => {
+            expect(m.length).equals(3);
+            expect(m[0]).instanceof(Scored);
+            expect(m[0].score).equals(.5);
+            expect(m[0].result).instanceof(Sourced);
+            expect(m[0].result).deep.include({ result: "hi", source: 1 });
+            expect(m[1]).deep.equals(new Sourced("hello", 1));
+            expect(m[2]).deep.equals(new Sourced("bye", 2));
+        })
+    );
+});
@@ -0,0 +1,214 @@
+import { expect, rejects, sleep } from './common';
+import { toOperator, runOn, Observer, Subscribable, AbortError, getContext, createAbortController } from '../src/prague';
+
+// A minimal hot source, standing in for an RxJS Subject
+
+class Subject <T> implements Subscribable<T> {
+    observers = new Set<Observer<T>>();
+
+    subscribe (
+        observer: Observer<T>,
+    ) {
+        this.observers.add(observer);
+
+        return {
+            unsubscribe: () => {
+                this.observers.delete(observer);
+            },
+        };
+    }
+
+    next (value: T) {
+        for (const observer of this.observers)
+            observer.next(value);
+    }
+
+    error (error: any) {
+        for (const observer of this.observers)
+            observer.error(error);
+    }
+
+    complete () {
+        for (const observer of this.observers)
+            observer.complete();
+    }
+}
+
+const collect = <T> (
+    source: { subscribe: (observer: Partial<Observer<T>>) => any },
+) => new Promise<T[]>((resolve, reject) => {
+    const values: T[] = [];
+
+    source.subscribe({
+        next: value => values.push(value),
+        error: reject,
+        complete: () => resolve(values),
+    });
+});
+
+const slowly = (ms: number) => (input: string) => sleep(ms).then(() => input.toUpperCase());
+
+describe("toOperator", () => {
+    it("should emit the results of the transform", () => {
+        const subject = new Subject<string>();
+        const results = collect(toOperator((input: string) => input.toUpperCase())(subject));
+
+        subject.next("hi");
+        subject.next("bye");
+        subject.complete();
+
+        return results.then(values => {
+            expect(values).deep.equals(["HI", "BYE"]);
+        });
+    });
+
+    it("should not emit null results", () => {
+        const subject = new Subject<string>();
+        const results = collect(toOperator((input: string) => input === "hi" ? null : input)(subject));
+
+        subject.next("hi");
+        subject.next("bye");
+        subject.complete();
+
+        return results.then(values => {
+            expect(values).deep.equals(["bye"]);
+        });
+    });
+
+    it("should run every input in order with 'queue'", () => {
+        const subject = new Subject<string>();
+        const results = collect(toOperator(slowly(5), 'queue')(subject));
+
+        subject.next("a");
+        subject.next("b");
+        subject.next("c");
+        subject.complete();
+
+        return results.then(values => {
+            expect(values).deep.equals(["A", "B", "C"]);
+        });
+    });
+
+    it("should ignore inputs while busy with 'drop'", () => {
+        const subject = new Subject<string>();
+        const results = collect(toOperator(slowly(5), 'drop')(subject));
+
+        subject.next("a");
+        subject.next("b");
+        subject.complete();
+
+        return results.then(values => {
+            expect(values).deep.equals(["A"]);
+        });
+    });
+
+    it("should abort the earlier run and only emit the latest with 'switch'", () => {
+        const subject = new Subject<string>();
+        const aborted: string[] = [];
+
+        const results = collect(toOperator((input: string) => {
+            const signal = getContext().signal as AbortSignal;
+            signal.addEventListener('abort', () => aborted.push(input));
+            return sleep(5).then(() => input.toUpperCase());
+        }, 'switch')(subject));
+
+        subject.next("a");
+        subject.next("b");
+        subject.complete();
+
+        return results.then(values => {
+            expect(values).deep.equals(["B"]);
+            expect(aborted).deep.equals(["a"]);
+        });
+    });
+
+    it("should run inputs alongside each other with 'merge'", () => {
+        const subject = new Subject<string>();
+        const results = collect(toOperator((input: string) => sleep(input === "a" ? 10 : 1).then(() => input), 'merge')(subject));
+
+        subject.next("a");
+        subject.next("b");
+        subject.complete();
+
+        return results.then(values => {
+            expect(values).deep.equals(["b", "a"]);
+        });
+    });
+
+    it("should stop at the first error of the transform", () => {
+        const subject = new Subject<string>();
+        const results = collect(toOperator((input: string) => {
+            throw "oops";
+        })(subject));
+
+        subject.next("hi");
+
+        return rejects(results).then(err => {
+            expect(err).equals("oops");
+            expect(subject.observers.size).equals(0);
+        });
+    });
+
+    it("should pass along an error of the source", () => {
+        const subject = new Subject<string>();
+        const results = collect(toOperator((input: string) => input)(subject));
+
+        subject.error("oops");
+
+        return rejects(results).then(err => {
+            expect(err).equals("oops");
+        });
+    });
+
+    it("should stop listening to the source on unsubscribe", () => {
+        const subject = new Subject<string>();
+        const subscription = toOperator((input: string) => input)(subject).subscribe({});
+
+        expect(subject.observers.size).equals(1);
+        subscription.unsubscribe();
+        expect(subject.observers.size).equals(0);
+    });
+});
+
+describe("runOn", () => {
+    it("should run the transform on each input, and resolve when the source completes", () => {
+        const subject = new Subject<string>();
+        const seen: string[] = [];
+        const done = runOn(subject, (input: string) => {
+            seen.push(input);
+        });
+
+        subject.next("hi");
+        subject.next("bye");
+        subject.complete();
+
+        return done.then(() => {
+            expect(seen).deep.equals(["hi", "bye"]);
+        });
+    });
+
+    it("should reject with the error of the transform", () => {
+        const subject = new Subject<string>();
+        const done = runOn(subject, () => {
+            throw "oops";
+        });
+
+        subject.next("hi");
+
+        return rejects(done).then(err => {
+            expect(err).equals("oops");
+        });
+    });
+
+    it("should stop and reject with an AbortError when the signal is aborted", () => {
+        const subject = new Subject<string>();
+        const controller = createAbortController();
+        const done = runOn(subject, (input: string) => input, { signal: controller.signal });
+
+        controller.abort();
+
+        return rejects(done, AbortError).then(() => {
+            expect(subject.observers.size).equals(0);
+        });
+    });
+});
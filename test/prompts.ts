@@ -0,0 +1,255 @@
+import { expect, isNull } from './common';
+import { recognizeText, recognizeNumber, recognizeConfirm, recognizeChoice, recognizeDate, prompt, nextAttempt, ActionReference } from '../src/prague';
+
+describe("recognizeText", () => {
+    it("should return the trimmed text", () =>
+        recognizeText()("  hi ")
+            .then(m => {
+                expect(m).equals("hi");
+            })
+    );
+
+    it("should return null for empty text", () =>
+        recognizeText()("  ")
+            .then(isNull)
+    );
+
+    it("should return null for text which doesn't match the pattern", () =>
+        recognizeText({ pattern: /^\d{5}$/ })("hi")
+            .then(isNull)
+    );
+});
+
+describe("recognizeNumber", () => {
+    it("should return the first number", () =>
+        recognizeNumber()("I'm 42 years old, not 43")
+            .then(m => {
+                expect(m).equals(42);
+            })
+    );
+
+    it("should recognize negative numbers, decimals, and thousands separators", () =>
+        Promise.all([
+            recognizeNumber()("-3"),
+            recognizeNumber()("2.5"),
+            recognizeNumber()("1,000,000"),
+        ])
+        .then(ms => {
+            expect(ms).deep.equals([-3, 2.5, 1000000]);
+        })
+    );
+
+    it("should recognize small numbers written as words", () =>
+        recognizeNumber()("Three please")
+            .then(m => {
+                expect(m).equals(3);
+            })
+    );
+
+    it("should return null when there is no number", () =>
+        recognizeNumber()("lots")
+            .then(isNull)
+    );
+
+    it("should return null when out of range", () =>
+        Promise.all([
+            recognizeNumber({ min: 1 })("0"),
+            recognizeNumber({ max: 10 })("11"),
+        ])
+        .then(ms => ms.forEach(isNull))
+    );
+
+    it("should return null for a fraction when integer", () =>
+        recognizeNumber({ integer: true })("2.5")
+            .then(isNull)
+    );
+});
+
+describe("recognizeConfirm", () => {
+    it("should return true for yes", () =>
+        Promise.all(["yes", "Yeah!", "sure thing", "OK"].map(recognizeConfirm()))
+            .then(ms => {
+                expect(ms).deep.equals([true, true, true, true]);
+            })
+    );
+
+    it("should return false for no", () =>
+        Promise.all(["no", "Nope.", "nah, thanks"].map(recognizeConfirm()))
+            .then(ms => {
+                expect(ms).deep.equals([false, false, false]);
+            })
+    );
+
+    it("should return null for anything else", () =>
+        recognizeConfirm()("maybe")
+            .then(isNull)
+    );
+
+    it("should not recognize a word which only starts with yes or no", () =>
+        recognizeConfirm()("nothing")
+            .then(isNull)
+    );
+
+    it("should recognize extra words", () =>
+        recognizeConfirm({ yes: ["oui"], no: ["non"] })("Oui")
+            .then(m => {
+                expect(m).equals(true);
+            })
+    );
+});
+
+describe("recognizeChoice", () => {
+    const colors = recognizeChoice([
+        "red",
+        { value: "green", synonyms: ["lime"] },
+        "blue",
+    ]);
+
+    it("should throw on a threshold out of range", () => {
+        expect(() => recognizeChoice(["red"], { threshold: 2 })).throws();
+    });
+
+    it("should recognize a choice by name", () =>
+        colors("Blue")
+            .then(m => {
+                expect(m).equals("blue");
+            })
+    );
+
+    it("should recognize a choice by synonym", () =>
+        colors("lime")
+            .then(m => {
+                expect(m).equals("green");
+            })
+    );
+
+    it("should recognize a choice within a sentence", () =>
+        colors("I'd like red please")
+            .then(m => {
+                expect(m).equals("red");
+            })
+    );
+
+    it("should recognize a choice by its number", () =>
+        colors("2")
+            .then(m => {
+                expect(m).equals("green");
+            })
+    );
+
+    it("should recognize a misspelled choice", () =>
+        colors("gren")
+            .then(m => {
+                expect(m).equals("green");
+            })
+    );
+
+    it("should return null for anything else", () =>
+        colors("purple")
+            .then(isNull)
+    );
+
+    it("should return the value of a Choice", () =>
+        recognizeChoice([
+            { value: 1, synonyms: ["small"] },
+            { value: 2, synonyms: ["large"] },
+        ])("large")
+        .then(m => {
+            expect(m).equals(2);
+        })
+    );
+});
+
+describe("recognizeDate", () => {
+    // Wednesday
+    const now = () => new Date(2018, 9, 17, 15, 30);
+    const recognize = recognizeDate({ now });
+    const date = (month: number, day: number) => new Date(2018, month, day);
+
+    it("should recognize today, tomorrow, and yesterday", () =>
+        Promise.all(["today", "Tomorrow!", "yesterday"].map(recognize))
+            .then(ms => {
+                expect(ms).deep.equals([date(9, 17), date(9, 18), date(9, 16)]);
+            })
+    );
+
+    it("should recognize the next weekday", () =>
+        Promise.all(["friday", "next monday", "wednesday"].map(recognize))
+            .then(ms => {
+                expect(ms).deep.equals([date(9, 19), date(9, 22), date(9, 24)]);
+            })
+    );
+
+    it("should recognize relative days and weeks", () =>
+        Promise.all(["in 3 days", "in 2 weeks", "1 day ago"].map(recognize))
+            .then(ms => {
+                expect(ms).deep.equals([date(9, 20), date(9, 31), date(9, 16)]);
+            })
+    );
+
+    it("should recognize yyyy-mm-dd", () =>
+        recognize("on 2018-12-25")
+            .then(m => {
+                expect(m).deep.equals(date(11, 25));
+            })
+    );
+
+    it("should return null for an invalid yyyy-mm-dd", () =>
+        recognize("2018-02-30")
+            .then(isNull)
+    );
+
+    it("should return null for anything else", () =>
+        recognize("someday")
+            .then(isNull)
+    );
+});
+
+describe("prompt", () => {
+    const agePrompt = prompt(
+        recognizeNumber({ min: 0 }),
+        {
+            reprompt: attempt => new ActionReference('reprompt', attempt),
+            tooManyAttempts: () => new ActionReference('giveUp'),
+        },
+    );
+
+    it("should throw on maxAttempts < 0", () => {
+        expect(() => prompt(recognizeText(), { reprompt: () => null, maxAttempts: -1 })).throws();
+    });
+
+    it("should return the recognized result", () =>
+        agePrompt("42", { attempts: 1 })
+            .then(m => {
+                expect(m).equals(42);
+            })
+    );
+
+    it("should return the reprompt for the next attempt", () =>
+        agePrompt("old")
+            .then(m => {
+                expect(m).instanceof(ActionReference);
+                expect((m as ActionReference).name).equals('reprompt');
+                expect((m as ActionReference).args).deep.equals([1]);
+            })
+    );
+
+    it("should return tooManyAttempts after maxAttempts", () =>
+        agePrompt("old", { attempts: 2 })
+            .then(m => {
+                expect(m).instanceof(ActionReference);
+                expect((m as ActionReference).name).equals('giveUp');
+            })
+    );
+
+    it("should return null after maxAttempts without tooManyAttempts", () =>
+        prompt(recognizeNumber(), { reprompt: () => "again", maxAttempts: 0 })("old")
+            .then(isNull)
+    );
+});
+
+describe("nextAttempt", () => {
+    it("should count another attempt", () => {
+        expect(nextAttempt({ attempts: 1 })).deep.equals({ attempts: 2 });
+    });
+});
@@ -0,0 +1,193 @@
+import { expect, throwErr, isNull, rejects } from './common';
+import { catchError, orElse, retry, nullOnError, first, toArray, best, timeout, Scored, TimeoutError } from '../src/prague';
+
+describe("catchError", () => {
+    it("should return the result of the transform when it doesn't throw", () =>
+        catchError(
+            (a: string) => a,
+            () => "error",
+        )("hi")
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should pass the error to the handler and return its result", () =>
+        catchError(
+            () => {
+                throw "oops";
+            },
+            error => `caught ${error}`,
+        )()
+        .then(m => {
+            expect(m).equals("caught oops");
+        })
+    );
+
+    it("should not catch a TimeoutError", () =>
+        rejects(timeout(
+            5,
+            catchError(
+                () => new Promise(() => {}),
+                () => "caught",
+            ),
+            { throwOnTimeout: true },
+        )())
+        .then(err => {
+            expect(err).instanceof(TimeoutError);
+        })
+    );
+});
+
+describe("orElse", () => {
+    it("should return the result of primary when it doesn't throw", () =>
+        orElse(
+            (a: string) => a,
+            throwErr,
+        )("hi")
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should not run fallback when primary returns null", () =>
+        orElse(
+            () => null,
+            throwErr,
+        )()
+        .then(isNull)
+    );
+
+    it("should run fallback with the same arguments when primary throws", () =>
+        orElse(
+            (a: string, b: number) => {
+                throw new Error();
+            },
+            (a, b) => a.repeat(b),
+        )("hi", 2)
+        .then(m => {
+            expect(m).equals("hihi");
+        })
+    );
+});
+
+describe("retry", () => {
+    it("should throw on attempts < 1", () => {
+        expect(() => retry(() => "hi", { attempts: 0 })).throws();
+    });
+
+    it("should return the result of a transform which succeeds", () =>
+        retry(
+            (a: string) => a,
+        )("hi")
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should retry until the transform succeeds", () => {
+        let calls = 0;
+
+        return retry(
+            () => {
+                if (++calls < 3)
+                    throw new Error();
+                return "hi";
+            },
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+            expect(calls).equals(3);
+        });
+    });
+
+    it("should throw the last error after the final attempt", () => {
+        let calls = 0;
+
+        return rejects(retry(
+            () => {
+                throw ++calls;
+            },
+            { attempts: 2 },
+        )())
+        .then(err => {
+            expect(err).equals(2);
+            expect(calls).equals(2);
+        });
+    });
+
+    it("should back off between attempts", () => {
+        const attempts: number[] = [];
+        let calls = 0;
+
+        return retry(
+            () => {
+                if (++calls < 3)
+                    throw new Error();
+                return "hi";
+            },
+            {
+                backoff: attempt => {
+                    attempts.push(attempt);
+                    return 1;
+                },
+            },
+        )()
+        .then(() => {
+            expect(attempts).deep.equals([1, 2]);
+        });
+    });
+});
+
+describe("nullOnError", () => {
+    it("should let first move on from a transform which throws, and collect its error", () => {
+        const errors: any[] = [];
+
+        return nullOnError(
+            first(
+                () => {
+                    throw "oops";
+                },
+                () => "hi",
+            ),
+            error => errors.push(error),
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+            expect(errors).deep.equals(["oops"]);
+        });
+    });
+
+    it("should let toArray collect the other results", () =>
+        nullOnError(
+            toArray(
+                () => "hi",
+                throwErr,
+            ),
+        )()
+        .then(m => {
+            expect(m).deep.equals(["hi"]);
+        })
+    );
+
+    it("should let best pick from the other results", () =>
+        nullOnError(
+            best(
+                () => Scored.from("hi", .5),
+                throwErr,
+            ),
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should still throw errors outside first, toArray, and best", () =>
+        rejects(nullOnError(
+            throwErr,
+        )())
+        .then(err => {
+            expect(err).instanceof(Error);
+        })
+    );
+});
@@ -0,0 +1,102 @@
+import { expect } from './common';
+import { named, ruleTree, formatRuleTree, nameOf, getRuleInfo, first, tube, best, match, re, ActionReferences, Scored, Tracer } from '../src/prague';
+
+describe("named", () => {
+    it("should pass through arguments and result", () =>
+        named(
+            "repeat",
+            (a: string, b: number) => a.repeat(b),
+        )("hi", 2)
+        .then(m => {
+            expect(m).equals("hihi");
+        })
+    );
+
+    it("should name the transform", () => {
+        expect(nameOf(named("greeting", () => "hi"))).equals("greeting");
+    });
+
+    it("should keep the kind and children of a composed transform", () => {
+        const a = () => "hi";
+        const info = getRuleInfo(named("greeting", first(a)));
+        expect(info.name).equals("greeting");
+        expect(info.kind).equals("first");
+        expect(info.children).deep.equals([a]);
+    });
+
+    it("should not rename the original transform", () => {
+        const f = first(() => "hi");
+        named("greeting", f);
+        expect(nameOf(f)).equals("first");
+    });
+
+    it("should be kept by Tracer", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(first(
+            named("greeting", () => "hi"),
+        ))()
+        .then(() => {
+            expect(tracer.calls[0].children[0].name).equals("greeting");
+        });
+    });
+});
+
+describe("ruleTree", () => {
+    const actions = new ActionReferences(() => ({
+        greet(name: string) {
+        },
+        bye() {
+        },
+    }));
+
+    const greeting = named("greeting", match(
+        re(/hi, I'm (.*)/, 1),
+        actions.reference.greet,
+    ));
+
+    const farewell = named("farewell", tube(
+        (text: string) => text === "bye" ? true : null,
+        () => actions.scoredReference.bye(.5),
+    ), [actions.scoredReference.bye]);
+
+    const logic = best(
+        greeting,
+        farewell,
+    );
+
+    it("should list nesting under combinators", () => {
+        const tree = ruleTree(logic);
+        expect(tree.name).equals("best");
+        expect(tree.children.map(child => child.name)).deep.equals(["greeting", "farewell"]);
+        expect(tree.children[0].kind).equals("match");
+        expect(tree.children[0].children.map(child => child.name)).deep.equals(["re(/hi, I'm (.*)/)", "reference.greet"]);
+    });
+
+    it("should list the actions each rule can produce", () => {
+        const tree = ruleTree(logic);
+        expect(tree.actions).deep.equals(["greet", "bye"]);
+        expect(tree.children[0].actions).deep.equals(["greet"]);
+        expect(tree.children[1].actions).deep.equals(["bye"]);
+    });
+
+    it("should list an unknown function as a leaf", () => {
+        expect(ruleTree(function hello () {})).deep.equals({
+            name: "hello",
+            kind: undefined,
+            actions: [],
+            children: [],
+        });
+    });
+
+    it("should pretty-print one rule per line, indented by depth", () => {
+        expect(formatRuleTree(ruleTree(logic)).split('\n')).deep.equals([
+            "best -> greet, bye",
+            "  greeting (match) -> greet",
+            "    re(/hi, I'm (.*)/)",
+            "    reference.greet -> greet",
+            "  farewell (tube) -> bye",
+            "    scoredReference.bye -> bye",
+        ]);
+    });
+});
@@ -0,0 +1,289 @@
+import { expect } from './common';
+import { Scheduler, Scheduled, ScheduledJob, ManualClock, after, every, ActionReference, ActionReferences, ConversationStates, MemoryStore, matchIf, re, tube, updateState } from '../src/prague';
+
+const setup = (options: { store?: MemoryStore<ScheduledJob[]>, time?: number } = {}) => {
+    const sent: string[] = [];
+    const errors: string[] = [];
+    const clock = new ManualClock(options.time);
+
+    const actions = new ActionReferences((conversationId: string) => ({
+        remind(text: string) {
+            sent.push(`${conversationId}: ${text}`);
+        },
+        fail() {
+            throw new Error("oops");
+        },
+    }));
+
+    const scheduler = new Scheduler(actions, job => [job.conversationId || 'none'] as [string], {
+        clock,
+        store: options.store,
+        onError: (error, job) => errors.push(`${job.action.name}: ${error.message}`),
+    });
+
+    return { sent, errors, clock, actions, scheduler };
+}
+
+describe("ManualClock", () => {
+    it("should call functions as they fall due, in order", () => {
+        const clock = new ManualClock(100);
+        const calls: string[] = [];
+
+        clock.setTimeout(() => calls.push(`b ${clock.now()}`), 20);
+        clock.setTimeout(() => calls.push(`a ${clock.now()}`), 10);
+        clock.setTimeout(() => calls.push(`c ${clock.now()}`), 30);
+
+        return clock.advance(25)
+            .then(() => {
+                expect(calls).deep.equals(["a 110", "b 120"]);
+                expect(clock.now()).equals(125);
+            });
+    });
+
+    it("should not call a cleared function", () => {
+        const clock = new ManualClock();
+        let called = false;
+
+        clock.clearTimeout(clock.setTimeout(() => called = true, 10));
+
+        return clock.advance(10)
+            .then(() => {
+                expect(called).is.false;
+            });
+    });
+});
+
+describe("Scheduled", () => {
+    it("should throw on an invalid delay or interval", () => {
+        expect(() => after(-1, new ActionReference("remind"))).throws();
+        expect(() => after(NaN, new ActionReference("remind"))).throws();
+        expect(() => every(0, new ActionReference("remind"))).throws();
+    });
+
+    it("should create a Scheduled", () => {
+        const scheduled = every(1000, new ActionReference("remind", "stretch"), "stretch");
+        expect(scheduled).instanceof(Scheduled);
+        expect(scheduled.delay).equals(1000);
+        expect(scheduled.options).deep.equals({ id: "stretch", every: 1000 });
+    });
+});
+
+describe("Scheduler", () => {
+    it("should run a delayed action once, through getContextArgs", () => {
+        const { sent, clock, actions, scheduler } = setup();
+
+        return scheduler.schedule(after(1000, actions.reference.remind("tea")), "a")
+            .then(() => clock.advance(999))
+            .then(() => {
+                expect(sent).deep.equals([]);
+            })
+            .then(() => clock.advance(1))
+            .then(() => clock.advance(5000))
+            .then(() => scheduler.jobs())
+            .then(jobs => {
+                expect(sent).deep.equals(["a: tea"]);
+                expect(jobs).deep.equals([]);
+            });
+    });
+
+    it("should run a recurring action until it's cancelled", () => {
+        const { sent, clock, actions, scheduler } = setup();
+
+        return scheduler.schedule(every(100, actions.reference.remind("stretch"), "stretch"))
+            .then(id => {
+                expect(id).equals("stretch");
+                return clock.advance(350);
+            })
+            .then(() => scheduler.cancel("stretch"))
+            .then(cancelled => {
+                expect(cancelled).is.true;
+                return clock.advance(1000);
+            })
+            .then(() => {
+                expect(sent).deep.equals(["none: stretch", "none: stretch", "none: stretch"]);
+            });
+    });
+
+    it("should cancel a delayed action", () => {
+        const { sent, clock, actions, scheduler } = setup();
+
+        return scheduler.schedule(after(100, actions.reference.remind("tea")))
+            .then(id => scheduler.cancel(id))
+            .then(() => clock.advance(100))
+            .then(() => scheduler.cancel("nope"))
+            .then(cancelled => {
+                expect(cancelled).is.false;
+                expect(sent).deep.equals([]);
+            });
+    });
+
+    it("should replace a job with the same id", () => {
+        const { sent, clock, actions, scheduler } = setup();
+
+        return scheduler.schedule(after(100, actions.reference.remind("tea"), "drink"))
+            .then(() => scheduler.schedule(after(200, actions.reference.remind("coffee"), "drink")))
+            .then(() => scheduler.jobs())
+            .then(jobs => {
+                expect(jobs.map(job => job.id)).deep.equals(["drink"]);
+                return clock.advance(1000);
+            })
+            .then(() => {
+                expect(sent).deep.equals(["none: coffee"]);
+            });
+    });
+
+    it("should keep jobs in the store, and run them after a restart", () => {
+        const store = new MemoryStore<ScheduledJob[]>();
+        const before = setup({ store });
+
+        return before.scheduler.schedule(after(1000, before.actions.reference.remind("tea")), "a")
+            .then(() => store.get('scheduledJobs'))
+            .then(item => {
+                expect(item!.value).deep.equals([{
+                    id: item!.value[0].id,
+                    action: { name: "remind", args: ["tea"] },
+                    at: 1000,
+                    conversationId: "a",
+                }]);
+
+                before.scheduler.stop();
+
+                const after = setup({ store, time: 5000 });
+
+                return after.scheduler.start()
+                    .then(() => after.clock.advance(0))
+                    .then(() => {
+                        expect(before.sent).deep.equals([]);
+                        expect(after.sent).deep.equals(["a: tea"]);
+                    });
+            });
+    });
+
+    it("should pass errors to onError, and carry on", () => {
+        const { errors, clock, actions, scheduler } = setup();
+
+        return scheduler.schedule(every(100, actions.reference.fail()))
+            .then(() => clock.advance(200))
+            .then(() => scheduler.jobs())
+            .then(jobs => {
+                expect(errors).deep.equals(["fail: oops", "fail: oops"]);
+                expect(jobs.length).equals(1);
+            });
+    });
+
+    it("should run actions through the middleware", () => {
+        const { sent, clock, actions, scheduler } = setup();
+
+        actions.use((reference, next, conversationId) => {
+            sent.push(`middleware ${conversationId}`);
+            return next();
+        });
+
+        return scheduler.schedule(after(100, actions.reference.remind("tea")), "a")
+            .then(() => clock.advance(100))
+            .then(() => {
+                expect(sent).deep.equals(["middleware a", "a: tea"]);
+            });
+    });
+
+    it("should schedule a Scheduled returned by a rule", () => {
+        const { sent, clock, actions, scheduler } = setup();
+
+        const botLogic = matchIf(re(/remind me/i), () => after(60000, actions.reference.remind("you asked")));
+
+        return tube(
+            botLogic,
+            scheduler.handle("a"),
+            actions.doAction("a"),
+        )("remind me in a minute")
+        .then(m => {
+            expect(m).is.null;
+            return clock.advance(60000);
+        })
+        .then(() => {
+            expect(sent).deep.equals(["a: you asked"]);
+        });
+    });
+
+    it("should wait for delays longer than setTimeout supports", () => {
+        const { sent, clock, actions, scheduler } = setup();
+        const delays: number[] = [];
+        const setTimeout = clock.setTimeout.bind(clock);
+        const month = 30 * 24 * 60 * 60 * 1000;
+
+        clock.setTimeout = (callback, ms) => {
+            delays.push(ms);
+            return setTimeout(callback, ms);
+        }
+
+        return scheduler.schedule(after(month, actions.reference.remind("rent")), "a")
+            .then(() => clock.advance(month - 1))
+            .then(() => {
+                expect(sent).deep.equals([]);
+                return clock.advance(1);
+            })
+            .then(() => {
+                expect(sent).deep.equals(["a: rent"]);
+                expect(delays.every(ms => ms <= 2 ** 31 - 1)).is.true;
+            });
+    });
+
+    it("should run a job with a conversationId within a turn, given states", () => {
+        const states = new ConversationStates<{ reminded: number }>({ reminded: 0 });
+        const clock = new ManualClock();
+        const actions = new ActionReferences(() => ({
+            remind() {
+                return (state: { reminded: number }) => ({ reminded: state.reminded * 10 });
+            },
+        }));
+
+        actions.use((reference, next) => {
+            updateState((state: { reminded: number }) => ({ reminded: state.reminded + 1 }));
+            return next();
+        });
+
+        const scheduler = new Scheduler(actions, () => [] as [], { clock, states });
+
+        return scheduler.schedule(after(100, actions.reference.remind()), "a")
+            .then(() => clock.advance(100))
+            .then(() => states.get("a"))
+            .then(state => {
+                expect(state).deep.equals({ reminded: 10 });
+            });
+    });
+
+    it("should pass an error to onError when an action updates state without states", () => {
+        const errors: string[] = [];
+        const clock = new ManualClock();
+        const actions = new ActionReferences(() => ({
+            remind() {
+            },
+        }));
+
+        actions.use((reference, next) => {
+            updateState((state: { reminded: number }) => state);
+            return next();
+        });
+
+        const scheduler = new Scheduler(actions, () => [] as [], {
+            clock,
+            onError: error => errors.push(error.message),
+        });
+
+        return scheduler.schedule(after(100, actions.reference.remind()), "a")
+            .then(() => clock.advance(100))
+            .then(() => {
+                expect(errors).deep.equals(["updateState must be called during ConversationStates.turn"]);
+            });
+    });
+
+    it("should pass anything else through", () => {
+        const { scheduler } = setup();
+        const reference = new ActionReference("remind", "now");
+
+        return scheduler.handle()(reference)
+            .then(m => {
+                expect(m).equals(reference);
+            });
+    });
+});
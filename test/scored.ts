@@ -1,5 +1,5 @@
-import { expect } from './common';
-import { toArray, sort, tube, top, best, Scored } from '../src/prague';
+import { expect, sleep } from './common';
+import { toArray, sort, tube, top, best, bestWith, withMaxScore, noisyOrScore, weightedScore, Scored, Sourced } from '../src/prague';
 import { matches, rev, spreadme, spreaded } from './multiple';
 
 describe("Scored.from", () => {
@@ -239,3 +239,139 @@ describe("best", () => {
         })
     )
 });
+
+describe("bestWith", () => {
+    it("should throw on concurrency < 1", () => {
+        expect(() => bestWith({ concurrency: 0 })).throws();
+    });
+
+    it("should return the best result with limited concurrency", () =>
+        bestWith({ concurrency: 1 })(
+            () => matches[1],
+            () => spreadme,
+            () => matches[0],
+        )()
+        .then(m => {
+            expect(m).equals(matches[0].result);
+        })
+    );
+
+    it("should wait for every function without earlyExit", () => {
+        let finished = false;
+
+        return bestWith({})(
+            () => Scored.from("hi", 1),
+            () => sleep(5).then(() => {
+                finished = true;
+            }),
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+            expect(finished).is.true;
+        });
+    });
+
+    it("should stop waiting once a result scores 1, with earlyExit", () => {
+        let finished = false;
+
+        return bestWith({ earlyExit: true })(
+            () => sleep(5).then(() => {
+                finished = true;
+                return Scored.from("bye", .5);
+            }),
+            () => Scored.from("hi", 1),
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+            expect(finished).is.false;
+        });
+    });
+
+    it("should stop waiting once no pending function can beat the best result, with earlyExit", () => {
+        let started = 0;
+
+        return bestWith({ earlyExit: true, concurrency: 1 })(
+            () => {
+                started++;
+                return Scored.from("hi", .6);
+            },
+            withMaxScore(.5, () => {
+                started++;
+                return Scored.from("bye", .5);
+            }),
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+            expect(started).equals(1);
+        });
+    });
+
+    it("should keep waiting for a pending function which could beat the best result, with earlyExit", () =>
+        bestWith({ earlyExit: true })(
+            () => Scored.from("hi", .6),
+            withMaxScore(.8, () => sleep(5).then(() => Scored.from("bye", .7))),
+        )()
+        .then(m => {
+            expect(m).equals("bye");
+        })
+    );
+});
+
+describe("bestWith dedupe", () => {
+    it("should merge duplicate results before picking the best", () =>
+        bestWith({ dedupe: { merge: noisyOrScore } })(
+            () => Scored.from("hi", .5),
+            () => Scored.from("hi", .5),
+            () => Scored.from("bye", .7),
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should pass the index of the function which returned each duplicate to merge", () =>
+        bestWith({ dedupe: { merge: weightedScore([1, 1, 0]) } })(
+            () => null,
+            () => Scored.from("bye", .6),
+            () => [Scored.from("hi", .8)],
+        )()
+        .then(m => {
+            expect(m).equals("bye");
+        })
+    );
+
+    it("should return the best result in a Sourced, with sourced", () =>
+        bestWith({ sourced: true, dedupe: true })(
+            () => null,
+            () => Scored.from("hi", .5),
+            () => Scored.from("hi", .6),
+        )()
+        .then(m => {
+            expect(m).deep.equals(new Sourced("hi", [1, 2]));
+        })
+    );
+
+    it("should pick the best without merging, without dedupe", () =>
+        bestWith({})(
+            () => Scored.from("hi", .5),
+            () => Scored.from("hi", .5),
+            () => Scored.from("bye", .7),
+        )()
+        .then(m => {
+            expect(m).equals("bye");
+        })
+    );
+});
+
+describe("withMaxScore", () => {
+    it("should throw on a score which isn't between 0 and 1", () => {
+        expect(() => withMaxScore(2, () => "hi")).throws();
+    });
+
+    it("should return the result of the function", () =>
+        withMaxScore(.5, () => Scored.from("hi", .5))()
+        .then(m => {
+            expect(m.score).equals(.5);
+        })
+    );
+});
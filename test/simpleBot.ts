@@ -1,6 +1,6 @@
 import { expect } from './common';
-import { botLogic } from '../samples/simpleBot';
-import { ActionReference } from '../src/prague';
+import { botLogic, bot } from '../samples/simpleBot';
+import { ActionReference, ruleTree } from '../src/prague';
 
 class TestContext {
     exited = false;
@@ -9,13 +9,15 @@ class TestContext {
     exit = () => { this.exited = true; };
     send = (text: string) => { this.sent = text };
 
+    conversationId = 'test';
+
     constructor(public text: string) {}
 }
 
 describe("greeting", () => { 
 
     it("should have a default handler", () =>
-        botLogic(new TestContext("hello"))
+        botLogic(new TestContext("hello"), { open: true })
             .then(m => {
                 expect(m).instanceof(ActionReference);
                 expect(m.name).equals('default');
@@ -23,7 +25,7 @@ describe("greeting", () => {
     );
 
     it("should let me introduce myself", () =>
-        botLogic(new TestContext("My name is Bill"))
+        botLogic(new TestContext("My name is Bill"), { open: true })
             .then(m => {
                 expect(m).instanceof(ActionReference);
                 expect(m.name).equals('greet');
@@ -31,4 +33,31 @@ describe("greeting", () => {
             })
     );
 
-})
\ No newline at end of file
+})
+
+describe("state", () => {
+
+    it("should be out of office once closed, until opened again", () => {
+        const closing = new TestContext("Gone fishing");
+        const closed = new TestContext("My name is Bill");
+        const opening = new TestContext("Back to work");
+
+        return bot(closing, closing)
+            .then(() => bot(closed, closed))
+            .then(() => bot(opening, opening))
+            .then(() => {
+                expect(closing.sent).equals("Closing up.");
+                expect(closed.sent).equals("Sorry, we're closed for the day");
+                expect(opening.sent).equals("Open for business!");
+            });
+    });
+
+})
+
+describe("rules", () => {
+
+    it("should list every action botLogic can produce", () => {
+        expect(ruleTree(botLogic).actions).to.have.members(['greet', 'bye', 'close', 'open', 'oof', 'default']);
+    });
+
+})
@@ -0,0 +1,258 @@
+import { expect, rejects, sleep } from './common';
+import { ConversationStates, ActionReferences, toReducers, updateState, MemoryStore, ConflictError, memoize, cacheScope, first } from '../src/prague';
+
+interface State {
+    count: number;
+    names: string[];
+}
+
+const increment = (state: State) => ({ ... state, count: state.count + 1 });
+
+describe("toReducers", () => {
+    it("should collect a single Reducer", () => {
+        expect(toReducers(increment)).deep.equals([increment]);
+    });
+
+    it("should collect the Reducers in an array, in order", () => {
+        const other = (state: State) => state;
+        expect(toReducers([increment, "hi", other])).deep.equals([increment, other]);
+    });
+
+    it("should collect the Reducers in nested arrays, in order", () => {
+        const other = (state: State) => state;
+        expect(toReducers([[increment, null], other, [[increment]]])).deep.equals([increment, other, increment]);
+    });
+
+    it("should ignore anything else", () => {
+        expect(toReducers(null)).deep.equals([]);
+        expect(toReducers("hi")).deep.equals([]);
+    });
+});
+
+describe("updateState", () => {
+    it("should throw outside of a turn", () => {
+        expect(() => updateState(increment)).throws();
+    });
+});
+
+describe("ConversationStates", () => {
+    const initialState = () => ({ count: 0, names: [] as string[] });
+
+    it("should start a conversation with the initial state", () =>
+        new ConversationStates<State>(initialState())
+            .get("a")
+            .then(state => {
+                expect(state).deep.equals({ count: 0, names: [] });
+            })
+    );
+
+    it("should pass the turn the current state", () => {
+        const states = new ConversationStates<State>(initialState());
+        let seen: State | undefined;
+
+        return states.turn("a", state => {
+            seen = state;
+        })
+        .then(() => {
+            expect(seen).deep.equals({ count: 0, names: [] });
+        });
+    });
+
+    it("should apply the Reducers returned by the turn", () =>
+        new ConversationStates<State>(initialState())
+            .turn("a", () => [increment, increment])
+            .then(state => {
+                expect(state.count).equals(2);
+            })
+    );
+
+    it("should apply the Reducers queued with updateState before those returned", () =>
+        new ConversationStates<State>(initialState())
+            .turn("a", () => {
+                updateState((state: State) => ({ ... state, names: [... state.names, "queued"] }));
+                return (state: State) => ({ ... state, names: [... state.names, "returned"] });
+            })
+            .then(state => {
+                expect(state.names).deep.equals(["queued", "returned"]);
+            })
+    );
+
+    it("should not apply the Reducers queued with updateState when the turn throws", () => {
+        const states = new ConversationStates<State>(initialState());
+
+        return states.turn("a", () => {
+            updateState(increment);
+            throw new Error("oops");
+        })
+        .catch(() => states.get("a"))
+        .then(state => {
+            expect(state.count).equals(0);
+        });
+    });
+
+    it("should keep conversations separate", () => {
+        const states = new ConversationStates<State>(initialState());
+
+        return states.turn("a", () => increment)
+            .then(() => Promise.all([states.get("a"), states.get("b")]))
+            .then(([a, b]) => {
+                expect(a.count).equals(1);
+                expect(b.count).equals(0);
+            });
+    });
+
+    it("should give the turn an immutable snapshot", () => {
+        const states = new ConversationStates<State>(initialState());
+
+        return states.turn("a", state => {
+            expect(() => {
+                (state as State).count = 5;
+            }).throws();
+            expect(() => state.names.push("bill")).throws();
+        });
+    });
+
+    it("should leave the state unchanged when the turn throws", () => {
+        const states = new ConversationStates<State>(initialState());
+
+        return states.turn("a", () => increment)
+            .then(() => states.turn("a", () => {
+                throw "oops";
+            }))
+            .catch(() => {})
+            .then(() => states.get("a"))
+            .then(state => {
+                expect(state.count).equals(1);
+            });
+    });
+
+    it("should leave the state unchanged when a Reducer throws", () => {
+        const states = new ConversationStates<State>(initialState());
+
+        return states.turn("a", () => [increment, () => {
+            throw "oops";
+        }])
+        .catch(() => {})
+        .then(() => states.get("a"))
+        .then(state => {
+            expect(state.count).equals(0);
+        });
+    });
+
+    it("should run turns of the same conversation one at a time", () => {
+        const states = new ConversationStates<State>(initialState());
+        const seen: number[] = [];
+
+        const slowIncrement = (state: State) => sleep(5)
+            .then(() => {
+                seen.push(state.count);
+                return increment;
+            });
+
+        return Promise.all([
+            states.turn("a", slowIncrement),
+            states.turn("a", slowIncrement),
+        ])
+        .then(() => states.get("a"))
+        .then(state => {
+            expect(seen).deep.equals([0, 1]);
+            expect(state.count).equals(2);
+        });
+    });
+
+    it("should start over once a conversation is deleted", () => {
+        const states = new ConversationStates<State>(initialState());
+
+        return states.turn("a", () => increment)
+            .then(() => states.delete("a"))
+            .then(() => states.get("a"))
+            .then(state => {
+                expect(state.count).equals(0);
+            });
+    });
+
+    it("should save the state in the Store", () => {
+        const store = new MemoryStore<State>();
+
+        return new ConversationStates<State>(initialState(), store)
+            .turn("a", () => increment)
+            .then(() => new ConversationStates<State>(initialState(), store).get("a"))
+            .then(state => {
+                expect(state.count).equals(1);
+            });
+    });
+
+    it("should not write the Store when the turn returns no Reducers", () => {
+        const store = new MemoryStore<State>();
+
+        return new ConversationStates<State>(initialState(), store)
+            .turn("a", () => null)
+            .then(() => store.get("a"))
+            .then(item => {
+                expect(item).is.undefined;
+            });
+    });
+
+    it("should reject with a ConflictError when the state changed elsewhere during the turn", () => {
+        const store = new MemoryStore<State>();
+        const states = new ConversationStates<State>(initialState(), store);
+        const elsewhere = new ConversationStates<State>(initialState(), store);
+
+        const turn = states.turn("a", () => elsewhere
+            .turn("a", () => increment)
+            .then(() => increment)
+        );
+
+        return rejects(turn, ConflictError)
+        .then(() => states.get("a"))
+        .then(state => {
+            expect(state.count).equals(1);
+        });
+    });
+
+    it("should apply the Reducers returned by an action run with ActionReferences.run", () => {
+        const actions = new ActionReferences(() => ({
+            add(name: string) {
+                return (state: State) => ({ ... state, names: [... state.names, name] });
+            },
+        }));
+
+        return new ConversationStates<State>(initialState())
+            .turn("a", state => actions.run((name: string, state: State) => actions.reference.add(name))("bill", state))
+            .then(state => {
+                expect(state.names).deep.equals(["bill"]);
+            });
+    });
+
+    it("should apply the Reducers an action queues with updateState", () => {
+        const actions = new ActionReferences(() => ({
+            add(name: string) {
+                updateState((state: State) => ({ ... state, names: [... state.names, name] }));
+            },
+        }));
+
+        return new ConversationStates<State>(initialState())
+            .turn("a", state => actions.run((name: string, state: State) => actions.reference.add(name))("bill", state))
+            .then(state => {
+                expect(state.names).deep.equals(["bill"]);
+            });
+    });
+
+    it("should run the turn within the surrounding Context", () => {
+        let calls = 0;
+        const recognize = memoize((text: string) => {
+            calls++;
+            return null;
+        }, { scope: 'evaluation' });
+
+        const states = new ConversationStates<State>(initialState());
+
+        return cacheScope((text: string) => states.turn("a", state => first(
+            recognize,
+            recognize,
+        )(text)))("hi")
+        .then(() => {
+            expect(calls).equals(1);
+        });
+    });
+});
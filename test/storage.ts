@@ -0,0 +1,158 @@
+import { expect, rejects } from './common';
+import { MemoryStore, FileStore, Store, ConflictError } from '../src/prague';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const describeStore = (
+    name: string,
+    createStore: () => Store<any>,
+) => describe(name, () => {
+    let store: Store<any>;
+
+    beforeEach(() => {
+        store = createStore();
+    });
+
+    it("should return undefined for a missing item", () =>
+        store.get("a")
+            .then(item => {
+                expect(item).is.undefined;
+            })
+    );
+
+    it("should return a value which was set, with its etag", () =>
+        store.set("a", { count: 1 }, undefined)
+            .then(etag => store.get("a")
+                .then(item => {
+                    expect(item).deep.equals({ value: { count: 1 }, etag });
+                })
+            )
+    );
+
+    it("should write with the current etag", () =>
+        store.set("a", 1, undefined)
+            .then(etag => store.set("a", 2, etag))
+            .then(() => store.get("a"))
+            .then(item => {
+                expect(item && item.value).equals(2);
+            })
+    );
+
+    it("should give each version a new etag", () =>
+        store.set("a", 1, undefined)
+            .then(etag => store.set("a", 2, etag)
+                .then(newEtag => {
+                    expect(newEtag).not.equals(etag);
+                })
+            )
+    );
+
+    it("should throw a ConflictError when writing with a stale etag", () =>
+        store.set("a", 1, undefined)
+            .then(etag => store.set("a", 2, etag)
+                .then(() => rejects(store.set("a", 3, etag), ConflictError))
+            )
+    );
+
+    it("should throw a ConflictError when creating an item which exists", () =>
+        store.set("a", 1, undefined)
+            .then(() => rejects(store.set("a", 2, undefined), ConflictError))
+    );
+
+    it("should write regardless with '*'", () =>
+        store.set("a", 1, undefined)
+            .then(() => store.set("a", 2, '*'))
+            .then(() => store.get("a"))
+            .then(item => {
+                expect(item && item.value).equals(2);
+            })
+    );
+
+    it("should delete an item", () =>
+        store.set("a", 1, undefined)
+            .then(() => store.delete("a"))
+            .then(() => store.get("a"))
+            .then(item => {
+                expect(item).is.undefined;
+            })
+    );
+
+    it("should throw a ConflictError when deleting with a stale etag", () =>
+        store.set("a", 1, undefined)
+            .then(etag => store.set("a", 2, etag)
+                .then(() => rejects(store.delete("a", etag), ConflictError))
+            )
+    );
+
+    it("should keep items separate", () =>
+        store.set("a", 1, undefined)
+            .then(() => store.set("b/c", 2, undefined))
+            .then(() => Promise.all([store.get("a"), store.get("b/c")]))
+            .then(([a, b]) => {
+                expect(a && a.value).equals(1);
+                expect(b && b.value).equals(2);
+            })
+    );
+});
+
+describeStore("MemoryStore", () => new MemoryStore());
+
+describe("MemoryStore", () => {
+    it("should not store later changes to a value", () => {
+        const store = new MemoryStore<number[]>();
+        const value = [1];
+
+        return store.set("a", value, undefined)
+            .then(() => {
+                value.push(2);
+                return store.get("a");
+            })
+            .then(item => {
+                expect(item && item.value).deep.equals([1]);
+            });
+    });
+});
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'prague-'));
+let directories = 0;
+
+describeStore("FileStore", () => new FileStore(path.join(tmp, String(++directories))));
+
+const removeDirectory = (
+    directory: string,
+) => {
+    for (const name of fs.readdirSync(directory)) {
+        const file = path.join(directory, name);
+
+        if (fs.statSync(file).isDirectory())
+            removeDirectory(file);
+        else
+            fs.unlinkSync(file);
+    }
+
+    fs.rmdirSync(directory);
+}
+
+describe("FileStore", () => {
+    after(() => removeDirectory(tmp));
+
+    it("should keep items across instances", () => {
+        const directory = path.join(tmp, 'shared');
+
+        return new FileStore<number>(directory).set("a", 1, undefined)
+            .then(() => new FileStore<number>(directory).get("a"))
+            .then(item => {
+                expect(item && item.value).equals(1);
+            });
+    });
+
+    it("should create missing parent directories", () => {
+        const directory = path.join(tmp, 'parent', 'child');
+
+        return new FileStore<number>(directory).set("a", 1, undefined)
+            .then(() => {
+                expect(fs.existsSync(path.join(directory, 'a.json'))).is.true;
+            });
+    });
+});
@@ -0,0 +1,172 @@
+import { expect, rejects, sleep } from './common';
+import { toArrayStream, mapStream, sortStream, topStream, collect, tube, fromArray, Scored } from '../src/prague';
+
+const toList = async <T> (
+    stream: AsyncIterable<T>,
+) => {
+    const list: T[] = [];
+
+    for await (const o of stream)
+        list.push(o);
+
+    return list;
+}
+
+describe("toArrayStream", () => {
+    it("should yield nothing on no args", () =>
+        toArrayStream(
+        )()
+        .then(toList)
+        .then(list => {
+            expect(list).deep.equals([]);
+        })
+    );
+
+    it("should yield nothing when every function returns null", () =>
+        toArrayStream(
+            () => null,
+            () => undefined,
+        )()
+        .then(toList)
+        .then(list => {
+            expect(list).deep.equals([]);
+        })
+    );
+
+    it("should yield the results so far as each function returns one, in the order of the functions", () =>
+        toArrayStream(
+            () => sleep(10).then(() => "slow"),
+            () => "fast",
+            () => null,
+        )()
+        .then(toList)
+        .then(list => {
+            expect(list).deep.equals([
+                ["fast"],
+                ["slow", "fast"],
+            ]);
+        })
+    );
+
+    it("should flatten array results", () =>
+        toArrayStream(
+            () => [1, 2],
+            () => sleep(5).then(() => 3),
+        )()
+        .then(toList)
+        .then(list => {
+            expect(list).deep.equals([
+                [1, 2],
+                [1, 2, 3],
+            ]);
+        })
+    );
+
+    it("should pass the arguments to each function", () =>
+        toArrayStream(
+            (a: string) => a,
+        )("hi")
+        .then(toList)
+        .then(list => {
+            expect(list).deep.equals([["hi"]]);
+        })
+    );
+
+    it("should throw when a function throws", () => {
+        const stream = toArrayStream(
+            () => {
+                throw "oops";
+            },
+        );
+
+        return rejects(stream().then(toList))
+            .then(err => {
+                expect(err).equals("oops");
+            });
+    });
+});
+
+describe("mapStream", () => {
+    it("should run the function on each array, dropping nulls", () =>
+        tube(
+            toArrayStream(
+                () => 1,
+                () => sleep(5).then(() => 2),
+            ),
+            mapStream((o: number[]) => o.length > 1 ? o.length : null),
+            toList,
+        )()
+        .then(list => {
+            expect(list).deep.equals([2]);
+        })
+    );
+});
+
+describe("sortStream and topStream", () => {
+    it("should sort each array", () =>
+        tube(
+            toArrayStream(
+                () => Scored.from("hi", .5),
+                () => sleep(5).then(() => Scored.from("hello", .75)),
+            ),
+            sortStream(),
+            toList,
+        )()
+        .then(list => {
+            expect(list.map(o => o.map(s => s.result))).deep.equals([
+                ["hi"],
+                ["hello", "hi"],
+            ]);
+        })
+    );
+
+    it("should retrieve the highest scoring elements of each array", () =>
+        tube(
+            toArrayStream(
+                () => Scored.from("hi", .5),
+                () => sleep(5).then(() => Scored.from("hello", .75)),
+                () => sleep(10).then(() => Scored.from("aloha", .75)),
+            ),
+            sortStream(),
+            topStream(),
+            toList,
+        )()
+        .then(list => {
+            expect(list.map(o => o.map(s => s.result))).deep.equals([
+                ["hi"],
+                ["hello"],
+                ["hello", "aloha"],
+            ]);
+        })
+    );
+});
+
+describe("collect", () => {
+    it("should return an empty array for a stream which yields nothing", () =>
+        tube(
+            toArrayStream(
+                () => null,
+            ),
+            collect,
+        )()
+        .then(m => {
+            expect(m).deep.equals([]);
+        })
+    );
+
+    it("should return the same results as toArray, for use with best", () =>
+        tube(
+            toArrayStream(
+                () => sleep(5).then(() => Scored.from("hello", .75)),
+                () => Scored.from("hi", .5),
+            ),
+            sortStream(),
+            collect,
+            fromArray,
+            Scored.unwrap,
+        )()
+        .then(m => {
+            expect(m).equals("hello");
+        })
+    );
+});
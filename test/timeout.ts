@@ -0,0 +1,117 @@
+import { expect, isNull, sleep, rejects } from './common';
+import { timeout, withDeadline, first, toArray, best, Scored, TimeoutError } from '../src/prague';
+
+// Longer than any of the timeouts below
+
+const late = () => sleep(100);
+
+describe("timeout", () => {
+    it("should return the result of a transform which finishes in time", () =>
+        timeout(
+            50,
+            (a: string) => sleep(1).then(() => a),
+        )("hi")
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should emit null when the transform is late", () =>
+        timeout(
+            10,
+            late,
+        )()
+        .then(isNull)
+    );
+
+    it("should throw TimeoutError when the transform is late and throwOnTimeout is true", () => {
+        const t = timeout(
+            10,
+            late,
+            { throwOnTimeout: true },
+        );
+
+        return rejects(t(), TimeoutError);
+    });
+
+    it("should count a late transform in first as null and move on", () =>
+        timeout(
+            20,
+            first(
+                timeout(5, late),
+                () => "hi",
+            ),
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should count a late transform in toArray as null", () =>
+        toArray(
+            () => "hi",
+            timeout(10, late),
+        )()
+        .then(m => {
+            expect(m).deep.equals(["hi"]);
+        })
+    );
+
+    it("should budget a whole toArray evaluation", () =>
+        timeout(
+            10,
+            toArray(
+                () => "hi",
+                late,
+            ),
+        )()
+        .then(m => {
+            expect(m).deep.equals(["hi"]);
+        })
+    );
+
+    it("should budget a whole best evaluation", () =>
+        timeout(
+            10,
+            best(
+                () => Scored.from("hi", .5),
+                late,
+                () => sleep(1).then(() => Scored.from("hello", .75)),
+            ),
+        )()
+        .then(m => {
+            expect(m).equals("hello");
+        })
+    );
+});
+
+describe("withDeadline", () => {
+    it("should emit null when the deadline has already passed", () =>
+        withDeadline(
+            Date.now() - 1,
+            late,
+        )()
+        .then(isNull)
+    );
+
+    it("should still return results which are ready after the deadline has passed", () =>
+        withDeadline(
+            Date.now() - 1,
+            () => "hi",
+        )()
+        .then(m => {
+            expect(m).equals("hi");
+        })
+    );
+
+    it("should keep an earlier enclosing deadline", () =>
+        timeout(
+            10,
+            withDeadline(
+                Date.now() + 1000,
+                late,
+            ),
+        )()
+        .then(isNull)
+    );
+});
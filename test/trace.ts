@@ -0,0 +1,166 @@
+import { expect } from './common';
+import { Tracer, first, tube, match, matchIf, best, Scored, named } from '../src/prague';
+
+describe("Tracer", () => {
+    it("should return the result of the traced transform", () =>
+        new Tracer().trace(
+            (a: string, b: number) => a.repeat(b),
+        )("hi", 2)
+        .then(m => {
+            expect(m).equals("hihi");
+        })
+    );
+
+    it("should record one call per call of the traced transform", () => {
+        const tracer = new Tracer();
+        const t = tracer.trace(() => "hi");
+
+        return t()
+            .then(() => t())
+            .then(() => {
+                expect(tracer.calls.length).equals(2);
+            });
+    });
+
+    it("should record arguments, result, and duration", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(
+            function repeat (a: string, b: number) { return a.repeat(b); },
+        )("hi", 2)
+        .then(() => {
+            const [call] = tracer.calls;
+            expect(call.name).equals("repeat");
+            expect(call.args).deep.equals(["hi", 2]);
+            expect(call.result).equals("hihi");
+            expect(call.duration).is.a("number");
+        });
+    });
+
+    it("should record the calls made by first, and stop where first stops", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(first(
+            () => null,
+            () => "hi",
+            () => "hello",
+        ))()
+        .then(() => {
+            const [call] = tracer.calls;
+            expect(call.name).equals("first");
+            expect(call.children.map(child => child.result)).deep.equals([null, "hi"]);
+        });
+    });
+
+    it("should record when a tube short-circuits", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(tube(
+            () => null,
+            () => "hi",
+        ))()
+        .then(() => {
+            const [call] = tracer.calls;
+            expect(call.shortCircuited).is.true;
+            expect(call.children.length).equals(1);
+        });
+    });
+
+    it("should record which branch a match ran", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(match(
+            () => null,
+            () => "yes",
+            () => "no",
+        ))()
+        .then(() => {
+            const [call] = tracer.calls;
+            expect(call.name).equals("match");
+            expect(call.children[1].name).equals("branch");
+            expect(call.children[1].branch).equals("onNull");
+        });
+    });
+
+    it("should record which branch a matchIf ran", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(matchIf(
+            () => true,
+            () => "yes",
+        ))()
+        .then(() => {
+            const [call] = tracer.calls;
+            expect(call.name).equals("matchIf");
+            expect(call.children[1].branch).equals("onResult");
+        });
+    });
+
+    it("should record scores within best", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(best(
+            named("hello", () => Scored.from("hello", .75)),
+            named("hi", () => Scored.from("hi", .5)),
+        ))()
+        .then(() => {
+            const [call] = tracer.calls;
+            expect(call.name).equals("best");
+
+            const [toArray, sort] = call.children;
+            expect(toArray.name).equals("toArray");
+            expect(toArray.children.map(child => [child.name, child.score])).deep.equals([["hello", .75], ["hi", .5]]);
+            expect(sort.name).equals("sort");
+        });
+    });
+
+    it("should record errors", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(() => {
+            throw "oops";
+        })()
+        .catch(() => {
+            expect(tracer.calls[0].error).equals("oops");
+        });
+    });
+
+    it("should export JSON", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(first(
+            () => "hi",
+        ))()
+        .then(() => {
+            const [call] = JSON.parse(JSON.stringify(tracer));
+            expect(call.name).equals("first");
+            expect(call.result).equals("hi");
+            expect(call.children[0].result).equals("hi");
+        });
+    });
+
+    it("should pretty-print one line per call, indented by depth", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(first(
+            (a: string) => null,
+            function hi (a: string) { return "hi"; },
+        ))("hey")
+        .then(() => {
+            const lines = tracer.toString().split('\n');
+            expect(lines.length).equals(3);
+            expect(lines[0]).matches(/^first\("hey"\) => "hi"/);
+            expect(lines[2]).matches(/^  hi\("hey"\) => "hi"/);
+        });
+    });
+
+    it("should forget calls on clear", () => {
+        const tracer = new Tracer();
+
+        return tracer.trace(() => "hi")()
+            .then(() => {
+                tracer.clear();
+                expect(tracer.calls).deep.equals([]);
+            });
+    });
+});